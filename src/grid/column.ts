@@ -1,5 +1,12 @@
 import { customElement, inject, bindable, noView, processContent } from 'aurelia-framework';
 import { Deferred } from './deferred';
+import { BsColumnType, BsColumnFormat } from './format';
+
+export type BsColumnFilterType = 'text' | 'number' | 'date' | 'boolean' | 'list';
+
+export type BsColumnEditType = 'text' | 'select' | 'date' | 'boolean';
+
+export type BsColumnAggregate = 'sum' | 'avg' | 'min' | 'max' | 'count' | ((values: any[], rows: any[]) => any);
 
 @inject(Element)
 @noView
@@ -30,6 +37,15 @@ export class BsColumn {
   @bindable
   public footer: string;
 
+  /**
+ * The aggregate to compute over the filtered rows: 'sum', 'avg', 'min',
+ * 'max', 'count' or a custom function which is called with the values and
+ * the rows. The result is shown in the footer (when no footer is defined)
+ * and in group header rows.
+ */
+  @bindable
+  public aggregate: BsColumnAggregate;
+
   /**
  * CSS class for the column footer. May be set by binding or as a 'class'
  * attribute on the <footer> tag. If both are defined, the bound value is
@@ -87,9 +103,110 @@ export class BsColumn {
   @bindable
   public width = 0;
 
+  /**
+ * The minimum width in pixels when the column is resized by the user.
+ */
+  @bindable
+  public minWidth = 30;
+
+  /**
+ * Set to false to hide this column; the column can still be shown by the
+ * user with the column chooser.
+ */
+  @bindable
+  public visible = true;
+
+  /**
+ * Set to false to disable resizing of this column by the user.
+ */
+  @bindable
+  public resizable = true;
+
+  /**
+ * Pins the column to the left or right side so that it stays visible when
+ * the grid is scrolled horizontally. Pinned columns are displayed before
+ * (left) or after (right) the other columns.
+ */
+  @bindable
+  public pinned: 'left' | 'right' | undefined;
+
   @bindable
   public sorter: (a: any, b: any) => number;
 
+  /**
+ * The type of the values in this column: 'string', 'number', 'date',
+ * 'moment', 'boolean', 'currency' or 'enum'. Typed columns are formatted
+ * for display (when no cell template is defined), sorted by value with
+ * empty values last and filtered on the displayed text.
+ */
+  @bindable
+  public type: BsColumnType = 'string';
+
+  /**
+ * The format of a typed column: the number of decimals (number), the
+ * currency code (currency), the moment format (date and moment), the
+ * labels as 'yes|no' (boolean), a map of the labels (enum) or a function
+ * which is called with the value.
+ */
+  @bindable
+  public format: BsColumnFormat;
+
+  /**
+ * Set to true to show a filter input for this column in the filter row
+ * beneath the grid header.
+ */
+  @bindable
+  public filterable = false;
+
+  /**
+ * The kind of filter input shown in the filter row: 'text' (contains or
+ * equals), 'number' or 'date' (from/to range), 'boolean' or 'list'.
+ */
+  @bindable
+  public filterType: BsColumnFilterType = 'text';
+
+  /**
+ * The values to choose from when filterType is 'list'.
+ */
+  @bindable
+  public filterOptions: any[] = [];
+
+  /**
+ * Custom formatter for the value of this column in exports. The formatter
+ * will be called with the row and should return the exported value; by
+ * default the values of all fields are exported.
+ */
+  @bindable
+  public exportValue: (row: any) => any;
+
+  /**
+ * Set to true to allow inline editing of the (first) field of this column;
+ * double-click a cell to start editing.
+ */
+  @bindable
+  public editable = false;
+
+  /**
+ * The editor used for inline editing: 'text' (bs-textbox), 'select'
+ * (bs-select with editOptions), 'date' (bs-datepicker) or 'boolean'
+ * (bs-checkbox). A custom editor can be defined with an <editor> tag in
+ * the <column> content (the edited row is bound to `row`).
+ */
+  @bindable
+  public editType: BsColumnEditType = 'text';
+
+  /**
+ * The items to choose from when editType is 'select'.
+ */
+  @bindable
+  public editOptions: any[] = [];
+
+  /**
+ * The custom editor template defined with an <editor> tag in the <column>
+ * content.
+ */
+  public editTemplate: string | undefined;
+
   /**
  * The template used to render each cell in this column. By default each of
  * this column's fields will be rendered this way:
@@ -104,6 +221,12 @@ export class BsColumn {
  */
   public cellTemplate: string;
 
+  /**
+ * Indicates that the cell template is generated from the fields; typed
+ * columns then render the formatted values.
+ */
+  public hasDefaultCellTemplate = false;
+
   private bound = new Deferred<void>();
 
   constructor(public element: Element) {
@@ -113,6 +236,11 @@ export class BsColumn {
       this.headerClass = header.className;
       header.parentNode!.removeChild(header);
     }
+    let editor = this.element.querySelector('editor');
+    if (editor) {
+      this.editTemplate = editor.innerHTML;
+      editor.parentNode!.removeChild(editor);
+    }
     let footer = this.element.querySelector('footer');
     if (footer) {
       this.footer = footer.innerHTML;
@@ -138,9 +266,28 @@ export class BsColumn {
     if (typeof this.sortable === 'string') {
       this.sortable = (<any>this.sortable).toLowerCase() === 'true';
     }
+    if (typeof this.visible === 'string') {
+      this.visible = (<any>this.visible).toLowerCase() === 'true';
+    }
+    if (typeof this.resizable === 'string') {
+      this.resizable = (<any>this.resizable).toLowerCase() === 'true';
+    }
+    if (typeof this.editable === 'string') {
+      this.editable = (<any>this.editable).toLowerCase() === 'true';
+    }
+    if (typeof this.filterable === 'string') {
+      this.filterable = (<any>this.filterable).toLowerCase() === 'true';
+    }
+    if (typeof this.width === 'string') {
+      this.width = parseFloat(<any>this.width) || 0;
+    }
+    if (typeof this.minWidth === 'string') {
+      this.minWidth = parseFloat(<any>this.minWidth) || 0;
+    }
 
     if (this.field && (!this.cellTemplate || !this.cellTemplate.trim())) {
       this.cellTemplate = '';
+      this.hasDefaultCellTemplate = true;
       this.field.forEach(field => {
         this.cellTemplate += `<span field="${field}">\${row.${field}}`;
       });
@@ -148,6 +295,8 @@ export class BsColumn {
     if (!this.field) {
       this.searchable = false;
       this.sortable = false;
+      this.filterable = false;
+      this.editable = false;
     }
 
     if (!this.bound.isResolved()) {
@@ -155,8 +304,9 @@ export class BsColumn {
     }
   }
 
-  propertyChanged() {
-    if (this.bound.isResolved()) {
+  propertyChanged(name: string) {
+    // The width is bound in the grid templates and does not require a recompilation
+    if (this.bound.isResolved() && name !== 'width') {
       this.element.dispatchEvent(new CustomEvent('update'));
     }
   }
@@ -0,0 +1,188 @@
+import { BsGridDataRequest, BsGridDataResponse, BsGridColumnFilter } from './grid';
+
+export type BsDataSource = (request: BsGridDataRequest) => Promise<BsGridDataResponse>;
+
+export interface BsDataSourceResponse {
+  ok: boolean;
+  status: number;
+  statusText?: string;
+  json(): Promise<any>;
+}
+
+export interface BsDataSourceOptions {
+  /** The fetch function (default: window.fetch), e.g. the fetch of an HttpClient or a stub in tests. */
+  fetch?: (url: string, init?: any) => Promise<BsDataSourceResponse>;
+
+  /** Additional options passed to fetch (e.g. headers or credentials). */
+  init?: any;
+
+  /** Maps the request to the query string parameters (overrides the default mapping and parameterNames). */
+  getParameters?: (request: BsGridDataRequest) => { [name: string]: any };
+
+  /** The paths of the response properties (e.g. 'data.items'); an array response is used as items. */
+  responsePaths?: {
+    items?: string;
+    filteredCount?: string;
+    totalCount?: string;
+    aggregates?: string;
+  };
+
+  /** Converts the response JSON to the grid data response (overrides responsePaths). */
+  parseResponse?: (json: any, request: BsGridDataRequest) => BsGridDataResponse;
+}
+
+export interface BsRestDataSourceOptions extends BsDataSourceOptions {
+  /** The names of the query string parameters (default: skip, take, sort, order and filter). */
+  parameterNames?: {
+    skip?: string;
+    take?: string;
+    sort?: string;
+    order?: string;
+    filter?: string;
+  };
+}
+
+export interface BsODataDataSourceOptions extends BsDataSourceOptions {
+  /** The fields searched with the filter text; when not set, the filter is sent as $search. */
+  searchFields?: string[];
+}
+
+/**
+ * Creates a loadData function which loads the rows from a REST endpoint: the request is mapped to the
+ * query string parameters skip, take, sort (the field of the sort column), order (asc or desc) and filter.
+ * By default the response must contain items, filteredCount and totalCount (see responsePaths).
+ */
+export function createRestDataSource(url: string, options: BsRestDataSourceOptions = {}): BsDataSource {
+  let names = Object.assign({ skip: 'skip', take: 'take', sort: 'sort', order: 'order', filter: 'filter' }, options.parameterNames);
+  let paths = Object.assign({ items: 'items', filteredCount: 'filteredCount', totalCount: 'totalCount', aggregates: 'aggregates' },
+    options.responsePaths);
+
+  return createDataSource(url, options, request => {
+    let parameters: { [name: string]: any } = {};
+    parameters[names.skip] = request.skip;
+    parameters[names.take] = request.take;
+    if (request.sortColumn && request.sortColumn.field && request.sortColumn.field.length > 0) {
+      parameters[names.sort] = request.sortColumn.field[0];
+      parameters[names.order] = request.sortOrder;
+    }
+    if (request.filter)
+      parameters[names.filter] = request.filter;
+    return parameters;
+  }, json => parseResponse(json, paths));
+}
+
+/**
+ * Creates a loadData function which loads the rows from an OData (v4) endpoint using $skip, $top,
+ * $orderby, $filter (filter text and filter row) and $count.
+ */
+export function createODataDataSource(url: string, options: BsODataDataSourceOptions = {}): BsDataSource {
+  let paths = Object.assign({ items: 'value', filteredCount: '@odata.count', totalCount: '', aggregates: '' }, options.responsePaths);
+
+  return createDataSource(url, options, request => {
+    let parameters: { [name: string]: any } = {
+      '$skip': request.skip,
+      '$top': request.take,
+      '$count': 'true'
+    };
+
+    let orderBy = request.sortColumns
+      .filter(s => s.column.field && s.column.field.length > 0)
+      .map(s => s.column.field[0].replace(/\./g, '/') + ' ' + s.order);
+    if (orderBy.length > 0)
+      parameters['$orderby'] = orderBy.join(',');
+
+    let filters = request.columnFilters.map(getODataFilter).filter(f => !!f);
+    if (request.filter && options.searchFields && options.searchFields.length > 0) {
+      filters = filters.concat(request.filter.split(' ').filter(term => !!term).map(term =>
+        '(' + options.searchFields!.map(field =>
+          `contains(tolower(${field.replace(/\./g, '/')}),${toODataValue(term.toLowerCase())})`).join(' or ') + ')'));
+    } else if (request.filter) {
+      parameters['$search'] = request.filter;
+    }
+    if (filters.length > 0)
+      parameters['$filter'] = filters.join(' and ');
+
+    return parameters;
+  }, json => parseResponse(json, paths));
+}
+
+function createDataSource(url: string, options: BsDataSourceOptions,
+  getParameters: (request: BsGridDataRequest) => { [name: string]: any },
+  parse: (json: any) => BsGridDataResponse): BsDataSource {
+  return async (request: BsGridDataRequest) => {
+    let parameters = options.getParameters ? options.getParameters(request) : getParameters(request);
+    let query = Object.keys(parameters)
+      .filter(name => parameters[name] !== undefined && parameters[name] !== null)
+      .map(name => encodeURIComponent(name) + '=' + encodeURIComponent(String(parameters[name])))
+      .join('&');
+
+    let fetch = options.fetch || ((<any>window).fetch.bind(window));
+    let init = Object.assign({}, options.init, request.signal ? { signal: request.signal } : {});
+    let response = await fetch(query ? url + (url.indexOf('?') === -1 ? '?' : '&') + query : url, init);
+    if (!response.ok)
+      throw new Error(`The request failed with status ${response.status}${response.statusText ? ' ' + response.statusText : ''}.`);
+
+    let json = await response.json();
+    return options.parseResponse ? options.parseResponse(json, request) : parse(json);
+  };
+}
+
+function parseResponse(json: any, paths: { items: string, filteredCount: string, totalCount: string, aggregates: string }) {
+  if (Array.isArray(json))
+    return <BsGridDataResponse>{ items: json, filteredCount: json.length, totalCount: json.length };
+
+  let items = getValue(json, paths.items) || [];
+  let filteredCount = getValue(json, paths.filteredCount);
+  let totalCount = getValue(json, paths.totalCount);
+  return <BsGridDataResponse>{
+    items: items,
+    filteredCount: typeof filteredCount === 'number' ? filteredCount : items.length,
+    totalCount: typeof totalCount === 'number' ? totalCount : -1,
+    aggregates: getValue(json, paths.aggregates)
+  };
+}
+
+function getValue(json: any, path: string) {
+  if (!path)
+    return undefined;
+
+  // OData annotations like '@odata.count' are property names containing a dot
+  if (json && path in json)
+    return json[path];
+
+  let value = json;
+  for (let part of path.split('.'))
+    value = value !== undefined && value !== null ? value[part] : undefined;
+  return value;
+}
+
+function getODataFilter(filter: BsGridColumnFilter) {
+  let field = filter.column.field && filter.column.field.length > 0 ? filter.column.field[0].replace(/\./g, '/') : null;
+  if (!field)
+    return null;
+
+  if (filter.operator === 'range') {
+    let parts: string[] = [];
+    if (filter.from !== undefined)
+      parts.push(`${field} ge ${toODataValue(filter.from)}`);
+    if (filter.to !== undefined) {
+      // Date ranges include the whole end day
+      let to = filter.to instanceof Date ? new Date(filter.to.getFullYear(), filter.to.getMonth(), filter.to.getDate() + 1) : filter.to;
+      parts.push(`${field} ${filter.to instanceof Date ? 'lt' : 'le'} ${toODataValue(to)}`);
+    }
+    return parts.join(' and ');
+  } else if (filter.operator === 'contains') {
+    return `contains(tolower(${field}),${toODataValue(String(filter.value).toLowerCase())})`;
+  }
+  return `${field} eq ${toODataValue(filter.value)}`;
+}
+
+function toODataValue(value: any): string {
+  if (value === null || value === undefined)
+    return 'null';
+  if (value instanceof Date)
+    return value.toISOString();
+  if (typeof value === 'number' || typeof value === 'boolean')
+    return String(value);
+  return `'${String(value).replace(/'/g, '\'\'')}'`;
+}
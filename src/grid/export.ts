@@ -0,0 +1,246 @@
+/** Converts the given rows of cell values to CSV text (RFC 4180). */
+export function createCsv(rows: any[][], separator = ','): string {
+  return rows.map(row => row.map(value => {
+    let text = toText(value);
+    return /["\r\n]/.test(text) || text.indexOf(separator) !== -1 ?
+      '"' + text.replace(/"/g, '""') + '"' : text;
+  }).join(separator)).join('\r\n');
+}
+
+/** Converts the given rows of cell values to an XLSX workbook with a single worksheet. */
+export function createXlsx(rows: any[][], sheetName = 'Sheet1'): Blob {
+  let sheetData = rows.map((row, rowIndex) => {
+    let cells = row.map((value, columnIndex) => {
+      let reference = getColumnName(columnIndex) + (rowIndex + 1);
+      if (typeof value === 'number' && isFinite(value))
+        return `<c r="${reference}"><v>${value}</v></c>`;
+
+      let text = escapeXml(toText(value));
+      return `<c r="${reference}" t="inlineStr"><is><t xml:space="preserve">${text}</t></is></c>`;
+    });
+    return `<row r="${rowIndex + 1}">${cells.join('')}</row>`;
+  }).join('');
+
+  let header = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>';
+  let files: { [path: string]: string } = {
+    '[Content_Types].xml': header +
+      '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+      '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+      '<Default Extension="xml" ContentType="application/xml"/>' +
+      '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+      '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>' +
+      '</Types>',
+    '_rels/.rels': header +
+      '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+      '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>' +
+      '</Relationships>',
+    'xl/workbook.xml': header +
+      '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" ' +
+      'xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">' +
+      `<sheets><sheet name="${escapeXml(sheetName)}" sheetId="1" r:id="rId1"/></sheets>` +
+      '</workbook>',
+    'xl/_rels/workbook.xml.rels': header +
+      '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+      '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>' +
+      '</Relationships>',
+    'xl/worksheets/sheet1.xml': header +
+      '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+      `<sheetData>${sheetData}</sheetData>` +
+      '</worksheet>'
+  };
+
+  return new Blob([createZip(files)], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' });
+}
+
+/** Converts the given rows of cell values to tab-separated text (e.g. to paste into spreadsheets). */
+export function createTsv(rows: any[][]): string {
+  return rows.map(row => row.map(value => toText(value).replace(/[\t\r\n]+/g, ' ')).join('\t')).join('\r\n');
+}
+
+/** Converts the given rows of cell values to an HTML table; the first row is used as header. */
+export function createHtmlTable(rows: any[][]): string {
+  let toCells = (row: any[], element: string) =>
+    '<tr>' + row.map(value => `<${element}>${escapeXml(toText(value))}</${element}>`).join('') + '</tr>';
+  return '<table>' +
+    (rows.length > 0 ? '<thead>' + toCells(rows[0], 'th') + '</thead>' : '') +
+    '<tbody>' + rows.slice(1).map(row => toCells(row, 'td')).join('') + '</tbody>' +
+    '</table>';
+}
+
+/**
+ * Copies the text and HTML to the clipboard with the asynchronous clipboard API when available, otherwise with
+ * a copy command (which is only allowed while handling a user action).
+ */
+export async function copyToClipboard(text: string, html: string): Promise<boolean> {
+  let clipboard = (<any>navigator).clipboard;
+  let ClipboardItem = (<any>window).ClipboardItem;
+  try {
+    if (clipboard && clipboard.write && ClipboardItem) {
+      await clipboard.write([new ClipboardItem({
+        'text/plain': new Blob([text], { type: 'text/plain' }),
+        'text/html': new Blob([html], { type: 'text/html' })
+      })]);
+      return true;
+    }
+    if (clipboard && clipboard.writeText) {
+      await clipboard.writeText(text);
+      return true;
+    }
+  } catch (error) {
+    // Denied by the browser: fall back to the copy command
+  }
+
+  let listener = (event: ClipboardEvent) => {
+    event.clipboardData.setData('text/plain', text);
+    event.clipboardData.setData('text/html', html);
+    event.preventDefault();
+  };
+  document.addEventListener('copy', listener);
+  try {
+    return document.execCommand('copy');
+  } finally {
+    document.removeEventListener('copy', listener);
+  }
+}
+
+/** Lets the browser download the given content as file. */
+export function downloadFile(content: Blob, fileName: string) {
+  if ((<any>navigator).msSaveOrOpenBlob) {
+    (<any>navigator).msSaveOrOpenBlob(content, fileName);
+    return;
+  }
+
+  let url = URL.createObjectURL(content);
+  let link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.style.display = 'none';
+
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+
+  setTimeout(() => URL.revokeObjectURL(url));
+}
+
+function toText(value: any): string {
+  if (value === undefined || value === null)
+    return '';
+  if (value instanceof Date)
+    return value.toLocaleString();
+  if (typeof value.format === 'function')
+    return value.format();
+
+  return String(value);
+}
+
+function escapeXml(text: string) {
+  return text
+    .replace(/[\x00-\x08\x0B\x0C\x0E-\x1F]/g, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function getColumnName(index: number) {
+  let name = '';
+  for (index++; index > 0; index = Math.floor((index - 1) / 26))
+    name = String.fromCharCode(65 + (index - 1) % 26) + name;
+  return name;
+}
+
+// Minimal ZIP writer (uncompressed entries), sufficient for XLSX packages
+
+let crcTable: number[] | null = null;
+
+function crc32(data: Uint8Array) {
+  if (!crcTable) {
+    crcTable = [];
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++)
+        c = c & 1 ? 0xEDB88320 ^ (c >>> 1) : c >>> 1;
+      crcTable.push(c >>> 0);
+    }
+  }
+
+  let crc = 0xFFFFFFFF;
+  for (let i = 0; i < data.length; i++)
+    crc = crcTable[(crc ^ data[i]) & 0xFF] ^ (crc >>> 8);
+  return (crc ^ 0xFFFFFFFF) >>> 0;
+}
+
+function toUtf8(text: string) {
+  let bytes: number[] = [];
+  for (let i = 0; i < text.length; i++) {
+    let code = text.charCodeAt(i);
+    if (code >= 0xD800 && code <= 0xDBFF && i + 1 < text.length)
+      code = 0x10000 + ((code - 0xD800) << 10) + (text.charCodeAt(++i) - 0xDC00);
+
+    if (code < 0x80)
+      bytes.push(code);
+    else if (code < 0x800)
+      bytes.push(0xC0 | (code >> 6), 0x80 | (code & 0x3F));
+    else if (code < 0x10000)
+      bytes.push(0xE0 | (code >> 12), 0x80 | ((code >> 6) & 0x3F), 0x80 | (code & 0x3F));
+    else
+      bytes.push(0xF0 | (code >> 18), 0x80 | ((code >> 12) & 0x3F), 0x80 | ((code >> 6) & 0x3F), 0x80 | (code & 0x3F));
+  }
+  return new Uint8Array(bytes);
+}
+
+function createZip(files: { [path: string]: string }) {
+  let parts: Uint8Array[] = [];
+  let centralDirectory: Uint8Array[] = [];
+  let offset = 0;
+
+  for (let path of Object.keys(files)) {
+    let name = toUtf8(path);
+    let data = toUtf8(files[path]);
+    let crc = crc32(data);
+
+    let local = new DataView(new ArrayBuffer(30));
+    local.setUint32(0, 0x04034b50, true);
+    local.setUint16(4, 20, true);
+    local.setUint16(10, 0, true);
+    local.setUint16(12, 0x21, true);
+    local.setUint32(14, crc, true);
+    local.setUint32(18, data.length, true);
+    local.setUint32(22, data.length, true);
+    local.setUint16(26, name.length, true);
+
+    let central = new DataView(new ArrayBuffer(46));
+    central.setUint32(0, 0x02014b50, true);
+    central.setUint16(4, 20, true);
+    central.setUint16(6, 20, true);
+    central.setUint16(12, 0, true);
+    central.setUint16(14, 0x21, true);
+    central.setUint32(16, crc, true);
+    central.setUint32(20, data.length, true);
+    central.setUint32(24, data.length, true);
+    central.setUint16(28, name.length, true);
+    central.setUint32(42, offset, true);
+
+    parts.push(new Uint8Array(local.buffer), name, data);
+    centralDirectory.push(new Uint8Array(central.buffer), name);
+    offset += 30 + name.length + data.length;
+  }
+
+  let centralDirectorySize = centralDirectory.reduce((size, part) => size + part.length, 0);
+  let end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, 0x06054b50, true);
+  end.setUint16(8, Object.keys(files).length, true);
+  end.setUint16(10, Object.keys(files).length, true);
+  end.setUint32(12, centralDirectorySize, true);
+  end.setUint32(16, offset, true);
+
+  let all = parts.concat(centralDirectory, [new Uint8Array(end.buffer)]);
+  let result = new Uint8Array(all.reduce((size, part) => size + part.length, 0));
+  let position = 0;
+  for (let part of all) {
+    result.set(part, position);
+    position += part.length;
+  }
+  return result;
+}
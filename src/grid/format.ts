@@ -0,0 +1,129 @@
+import * as moment from 'moment';
+import { BsSettings } from '../settings';
+
+let translations = {
+  'de': {
+    'yes': 'Ja',
+    'no': 'Nein'
+  },
+  'en': {
+    'yes': 'Yes',
+    'no': 'No'
+  }
+};
+
+export type BsColumnType = 'string' | 'number' | 'date' | 'moment' | 'boolean' | 'currency' | 'enum';
+
+/**
+ * The format of a typed column: the number of decimals (number), the currency code (currency), the moment format
+ * (date and moment), the labels as 'yes|no' (boolean), a map of the labels (enum) or a formatting function.
+ */
+export type BsColumnFormat = string | { [value: string]: string } | ((value: any) => string);
+
+export let BsColumnFormatDefaults = {
+  /** The moment format of date and moment columns by language. */
+  dateFormat: <{ [language: string]: string }>{
+    'de': 'DD.MM.YYYY',
+    'en': 'MM/DD/YYYY'
+  },
+
+  /** The currency code of currency columns. */
+  currency: 'EUR'
+};
+
+/** Formats the value of a typed column for display (locale-aware for numbers and currencies). */
+export function formatValue(value: any, type: BsColumnType | undefined, format?: BsColumnFormat, locale?: string): string {
+  if (typeof format === 'function')
+    return format(value);
+  if (value === undefined || value === null || value === '')
+    return '';
+
+  let stringFormat = typeof format === 'string' && format ? format : undefined;
+  switch (type) {
+    case 'number': {
+      let numeric = toNumber(value);
+      let decimals = stringFormat ? parseInt(stringFormat, 10) : NaN;
+      if (numeric === undefined)
+        return String(value);
+      return numeric.toLocaleString(locale, isNaN(decimals) ? undefined :
+        { minimumFractionDigits: decimals, maximumFractionDigits: decimals });
+    }
+    case 'currency': {
+      let numeric = toNumber(value);
+      if (numeric === undefined)
+        return String(value);
+      return numeric.toLocaleString(locale, { style: 'currency', currency: stringFormat || BsColumnFormatDefaults.currency });
+    }
+    case 'date':
+    case 'moment': {
+      let date = toMoment(value);
+      return date ? date.format(stringFormat || BsColumnFormatDefaults.dateFormat[BsSettings.language]) : String(value);
+    }
+    case 'boolean': {
+      let labels = stringFormat && stringFormat.indexOf('|') !== -1 ? stringFormat.split('|') :
+        [translations[BsSettings.language].yes, translations[BsSettings.language].no];
+      return value ? labels[0] : labels[1];
+    }
+    case 'enum': {
+      let label = format && typeof format === 'object' ? format[String(value)] : undefined;
+      return label !== undefined ? label : String(value);
+    }
+    default:
+      return String(value);
+  }
+}
+
+/** Gets the value used to compare values of a typed column (undefined for empty or invalid values). */
+export function getComparableValue(value: any, type: BsColumnType | undefined, format?: BsColumnFormat): any {
+  if (value === undefined || value === null || value === '')
+    return undefined;
+
+  switch (type) {
+    case 'number':
+    case 'currency':
+      return toNumber(value);
+    case 'date':
+    case 'moment': {
+      let date = toMoment(value);
+      return date ? date.valueOf() : undefined;
+    }
+    case 'boolean':
+      return value ? 1 : 0;
+    case 'enum':
+      return formatValue(value, type, format);
+    default:
+      return value;
+  }
+}
+
+/**
+ * Parses a value entered by the user (e.g. in the filter) to the comparable value of a typed column; dates
+ * are parsed with the format of the column, the default date format of the language or as ISO 8601.
+ */
+export function parseValue(text: string, type: BsColumnType | undefined, format?: BsColumnFormat): any {
+  switch (type) {
+    case 'number':
+    case 'currency':
+      return toNumber(text.indexOf('.') === -1 ? text.replace(',', '.') : text);
+    case 'date':
+    case 'moment': {
+      let formats = [BsColumnFormatDefaults.dateFormat[BsSettings.language], moment.ISO_8601];
+      if (typeof format === 'string' && format)
+        formats.unshift(format);
+      let date = moment(text, formats, true);
+      return date.isValid() ? date.valueOf() : undefined;
+    }
+    default:
+      return getComparableValue(text, type, format);
+  }
+}
+
+function toNumber(value: any) {
+  let numeric = typeof value === 'number' ? value : parseFloat(value);
+  return isNaN(numeric) ? undefined : numeric;
+}
+
+function toMoment(value: any) {
+  let date = moment.isMoment(value) ? value : moment(value);
+  return date.isValid() ? date : undefined;
+}
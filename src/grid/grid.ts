@@ -1,25 +1,184 @@
 import { customElement, inject, bindable, children, Container, View, ViewCompiler, ViewResources, ViewSlot } from 'aurelia-framework';
-import { computedFrom, bindingMode } from 'aurelia-binding';
-
-import { BsColumn } from './column';
+import { computedFrom, bindingMode, BindingEngine, Disposable } from 'aurelia-binding';
+import { ValidationController } from 'aurelia-validation';
+
+import { BsColumn, BsColumnFilterType, BsColumnAggregate } from './column';
+import { BsRowDetail } from './row-detail';
+import { formatValue, getComparableValue, parseValue } from './format';
+import { BsGridQuery, BsGridQueryTerm, parseQuery } from './query';
+import { highlightText } from './highlight';
 import { Deferred } from './deferred';
+import { createCsv, createXlsx, downloadFile, createTsv, createHtmlTable, copyToClipboard } from './export';
+import { BsGridState, BsGridStateStorage, BsGridLocalStorage } from './state';
 import { BsResizeContainer } from '../resize-container';
+import { BsSettings } from '../settings';
 import { observable } from 'aurelia-binding';
 
+let translations = {
+  'de': {
+    'contains': 'Enthält',
+    'equals': 'Gleich',
+    'from': 'Von',
+    'to': 'Bis',
+    'yes': 'Ja',
+    'no': 'Nein',
+    'loadingMore': 'Weitere Einträge werden geladen...',
+    'endOfData': 'Alle Einträge geladen',
+    'export': 'Exportieren',
+    'columns': 'Spalten',
+    'loadingDetail': 'Details werden geladen...',
+    'allOnPageSelected': 'Alle Einträge auf dieser Seite sind ausgewählt.',
+    'allSelected': 'Alle passenden Einträge sind ausgewählt.',
+    'selectAll': 'Alle passenden Einträge auswählen',
+    'clearSelection': 'Auswahl aufheben',
+    'loadError': 'Die Daten konnten nicht geladen werden.',
+    'retry': 'Erneut versuchen'
+  },
+  'en': {
+    'contains': 'Contains',
+    'equals': 'Equals',
+    'from': 'From',
+    'to': 'To',
+    'yes': 'Yes',
+    'no': 'No',
+    'loadingMore': 'Loading more items...',
+    'endOfData': 'All items loaded',
+    'export': 'Export',
+    'columns': 'Columns',
+    'loadingDetail': 'Loading details...',
+    'allOnPageSelected': 'All items on this page are selected.',
+    'allSelected': 'All matching items are selected.',
+    'selectAll': 'Select all matching items',
+    'clearSelection': 'Clear selection',
+    'loadError': 'The data could not be loaded.',
+    'retry': 'Retry'
+  }
+};
+
+export interface BsGridSortColumn {
+  column: BsColumn;
+  order: 'asc' | 'desc';
+}
+
+export interface BsGridColumnFilter {
+  column: BsColumn;
+  type: BsColumnFilterType;
+
+  /** 'contains' or 'equals' for text filters, 'range' for number and date filters and 'equals' otherwise. */
+  operator: 'contains' | 'equals' | 'range';
+
+  /** The filter value for 'contains' and 'equals' filters (a string, boolean or list option). */
+  value?: any;
+
+  /** The inclusive lower bound (number or Date) of 'range' filters. */
+  from?: any;
+
+  /** The inclusive upper bound (number or Date) of 'range' filters. */
+  to?: any;
+}
+
+interface BsGridRowDetailState {
+  row: any;
+  detail: any;
+  loading: boolean;
+}
+
+interface BsGridTreeState {
+  level: number;
+  expanded: boolean;
+  loading: boolean;
+
+  /** The children loaded with loadChildren. */
+  children: any[] | undefined;
+}
+
+interface BsGridColumnFilterState {
+  column: BsColumn;
+  operator: 'contains' | 'equals';
+  value: any;
+  from: string;
+  to: string;
+}
+
+/** The abort signal of a data request (the DOM AbortSignal where supported), e.g. to pass to fetch(). */
+export interface BsGridAbortSignal {
+  readonly aborted: boolean;
+  addEventListener(type: 'abort', listener: (event: Event) => void): void;
+  removeEventListener(type: 'abort', listener: (event: Event) => void): void;
+}
+
 export interface BsGridDataRequest {
   skip: number;
   take: number;
 
+  /** The primary sort column (same as the first entry of sortColumns). */
   sortColumn: BsColumn | undefined;
   sortOrder: 'asc' | 'desc';
 
+  /** The sort columns ordered by their priority. */
+  sortColumns: BsGridSortColumn[];
+
   filter: string;
+
+  /** The filter parsed with the search syntax (see BsGrid.getQuery()). */
+  query: BsGridQuery;
+
+  /** The active filters of the filter row. */
+  columnFilters: BsGridColumnFilter[];
+
+  /** The field paths the rows are grouped by; the items should be sorted by these fields first. */
+  groupBy: string[];
+
+  /** Aborted when a newer request is started (not set when the browser does not support AbortController). */
+  signal?: BsGridAbortSignal;
 }
 
 export interface BsGridDataResponse {
   items: any[] | undefined;
   filteredCount: number;
   totalCount: number;
+
+  /** The aggregates of the filtered items keyed by the column fields (space separated when a column has multiple fields). */
+  aggregates?: { [key: string]: any };
+}
+
+/** Describes the selection of all rows matching a filter without loading them (see BsGrid.selectAll()). */
+export interface BsGridSelectionDescriptor {
+  filter: string;
+  columnFilters: BsGridColumnFilter[];
+
+  /** The deselected rows (or their values when valuePath is set). */
+  excludedItems: any[];
+
+  /** The number of selected rows. */
+  count: number;
+}
+
+export interface BsGridExportOptions {
+  format: 'csv' | 'xlsx';
+
+  /** The rows to export: the displayed page, all filtered rows (default) or the selected rows. */
+  scope?: 'page' | 'filtered' | 'selected';
+
+  /** The file name without extension (default: 'export'). */
+  fileName?: string;
+}
+
+/** A group header row which is inserted into the displayed items when the grid is grouped. */
+export class BsGridGroupRow {
+  expanded = true;
+  items: any[] = [];
+
+  /** The aggregates of the group items keyed by the column fields (see BsColumn.aggregate). */
+  aggregates: { [key: string]: any } = {};
+
+  constructor(public id: string, public field: string, public key: any, public level: number) {
+  }
+
+  /** Gets the number of items in the group (only the items of the current page for loadData grids). */
+  get count() {
+    return this.items.length;
+  }
 }
 
 export enum SelectionMode {
@@ -42,7 +201,16 @@ export let BsGridDefaults = {
   hideUnfilteredCounter: false,
 
   /** Hides the paging when there is only a single page. */
-  hideSinglePaging: false
+  hideSinglePaging: false,
+
+  /** The width of columns without width used to calculate the table width when scrolling horizontally. */
+  columnWidth: 150,
+
+  /** The number of rows requested per loadData call when exporting. */
+  exportPageSize: 500,
+
+  /** The storage used to save the grid state when a stateKey is set. */
+  stateStorage: <BsGridStateStorage>new BsGridLocalStorage()
 };
 
 /**
@@ -65,6 +233,8 @@ export let BsGridDefaults = {
 @inject(Container, Element, ViewCompiler, ViewResources)
 @customElement('bs-grid')
 export class BsGrid extends BsResizeContainer {
+  translations = translations[BsSettings.language];
+
   /**
    * Defines the locale to use for sorting strings, defaults to browser default.
    */
@@ -112,9 +282,67 @@ export class BsGrid extends BsResizeContainer {
   @bindable
   itemsPerPage = 0;
 
+  /**
+   * Specifies how to navigate through the items: 'paging' shows a single page with pagination buttons,
+   * 'virtual' scrolls through all items and only renders the visible rows (requires a fixed itemHeight),
+   * 'infinite' appends the next rows when scrolling to the bottom.
+   */
+  @bindable
+  scrollMode: 'paging' | 'virtual' | 'infinite' = 'paging';
+
+  /** The number of additional rows rendered above and below the visible rows in virtual scroll mode. */
+  @bindable
+  virtualBuffer = 10;
+
   @children('bs-column')
   columns: BsColumn[] = [];
 
+  @children('bs-row-detail')
+  rowDetails: BsRowDetail[] = [];
+
+  /**
+   * Loads the detail data of a row when it is expanded (see bs-row-detail); the result
+   * is available as `detail` in the detail template.
+   */
+  @bindable
+  loadDetail: ((row: any) => Promise<any> | any) | undefined = undefined;
+
+  /** The number of cells rendered in front of the column cells (e.g. the row expander). */
+  leadingCellCount = 0;
+
+  private rowDetailStates: BsGridRowDetailState[] = [];
+
+  /** All columns in the order defined by the user. */
+  orderedColumns: BsColumn[] = [];
+
+  /** The visible columns in the order defined by the user. */
+  displayedColumns: BsColumn[] = [];
+
+  /** Scrolls the rows horizontally instead of shrinking the columns to the grid width (enabled when a column is pinned). */
+  @bindable
+  horizontalScroll = false;
+
+  /** Specifies whether the rows are scrolled horizontally (horizontalScroll is set or a column is pinned). */
+  hasHorizontalScroll = false;
+
+  /** The additional style of the header and body tables. */
+  tableStyle = '';
+
+  /** The position styles of the displayed columns (sticky offsets of pinned columns). */
+  pinnedStyles: string[] = [];
+
+  private hasLeftPinnedColumns = false;
+
+  /** Set to false to disable reordering of the columns by dragging the header cells. */
+  @bindable
+  reorderableColumns = true;
+
+  /** Shows a toolbar dropdown to show, hide and reorder the columns. */
+  @bindable
+  showColumnChooser = false;
+
+  columnChooserOpen = false;
+
   /** The data to display, given as rows of simple objects. */
   @bindable
   items: any[];
@@ -131,6 +359,13 @@ export class BsGrid extends BsResizeContainer {
   @bindable
   defaultSortOrder: undefined | 'asc' | 'desc' = undefined;
 
+  /**
+   * Columns to sort on when the grid is first rendered, overrides defaultSortColumn. Either a
+   * comma separated string (e.g. 'customer, deadline desc') or an array of { field, order } objects.
+   */
+  @bindable
+  defaultSort: string | { field: string, order?: 'asc' | 'desc' }[] | undefined = undefined;
+
   /** Set to false to disable animation when first showing the datagrid. */
   @bindable
   animate = true;
@@ -140,9 +375,42 @@ export class BsGrid extends BsResizeContainer {
   totalCount = -1;
 
   filteredCount = -1;
+
+  /**
+   * The number of rows to page or scroll over: the filtered rows, for grouped local items including the group header
+   * rows and without the rows of collapsed groups.
+   */
+  rowCount = -1;
+
   currentIndex = 0;
   pageSize = 0;
 
+  /** The space in pixels above and below the rendered rows in virtual scroll mode. */
+  virtualOffsetTop = 0;
+  virtualOffsetBottom = 0;
+
+  private virtualSkip = 0;
+
+  /** Specifies whether the next rows are being loaded in infinite scroll mode. */
+  loadingMore = false;
+
+  private infiniteSkip = 0;
+  private infiniteCount = 0;
+
+  /** The index of the focused row in the displayed items (-1 when no row is focused). */
+  focusedIndex = -1;
+
+  /** The index of the focused cell in the displayed columns. */
+  focusedColumnIndex = 0;
+
+  private focusOffset = 0;
+
+  /** The index of the first displayed item in the filtered items. */
+  private displayedItemsOffset = 0;
+
+  /** The index of the last clicked row in the filtered items, used for Shift+click range selection. */
+  private selectionAnchorIndex = -1;
+
   @bindable({ defaultBindingMode: bindingMode.twoWay })
   value: any = undefined;
 
@@ -152,12 +420,51 @@ export class BsGrid extends BsResizeContainer {
   @bindable
   selectionMode = SelectionMode.none;
 
+  /** Shows a checkbox column with a select all checkbox in the header (selectionMode multiple only). */
+  @bindable
+  showCheckboxColumn = false;
+
+  /**
+   * Set when all rows matching the filter are selected in a loadData grid (see selectAll()); the rows
+   * are not loaded and the selected rows must be resolved with the descriptor.
+   */
+  @bindable({ defaultBindingMode: bindingMode.twoWay })
+  selectionDescriptor: BsGridSelectionDescriptor | null = null;
+
+  /** Specifies whether the checkbox column is shown. */
+  hasCheckboxColumn = false;
+
+  private hasRowExpander = false;
+
+  /**
+   * Enables reordering the rows with the drag handles or Ctrl+Up/Down; sorting is disabled while reordering is active.
+   * Not available with groups and in the tree mode.
+   */
+  @bindable
+  reorderable = false;
+
+  /** Specifies whether the drag handle column is shown (see reorderable). */
+  private hasRowHandle = false;
+
+  private draggedRow: any = null;
+
+  /** The row the dragged row is dropped on and whether it is dropped before or after it. */
+  dropTargetRow: any = null;
+  dropPosition: 'before' | 'after' = 'before';
+
   @bindable
   enabled = true;
 
   @bindable
   filter: string = '';
 
+  /** The parsed filter (see getQuery()), e.g. for the highlight value converter in custom cell templates. */
+  currentQuery: BsGridQuery = { groups: [] };
+
+  /** Marks the matches of the filter in the cells rendered by the default column template. */
+  @bindable
+  highlightMatches = false;
+
   /** Sets the additional row CSS classes ('row' is available in the binding). */
   @bindable
   rowClass = '';
@@ -177,9 +484,79 @@ export class BsGrid extends BsResizeContainer {
   @bindable
   showFooter = false;
 
-  @computedFrom('filteredCount', 'pageSize')
+  /**
+   * The field paths to group the rows by, either as array or as space or comma separated string. For loadData grids
+   * the request contains the grouping and the returned items must be sorted by the group fields.
+   */
+  @bindable
+  groupBy: string | string[] | undefined = undefined;
+
+  /** The aggregates of the filtered items keyed by the column fields (see BsColumn.aggregate), usable in footer templates. */
+  aggregates: { [key: string]: any } = {};
+
+  /** The path of the child rows array of a row; enables the tree mode (root rows are the items). */
+  @bindable
+  childrenPath: string | null = null;
+
+  /** Loads the child rows of a row when it is expanded the first time; enables the tree mode. */
+  @bindable
+  loadChildren: ((row: any) => Promise<any[]> | any[]) | undefined = undefined;
+
+  /** The path of a boolean which specifies whether a row has children (used with loadChildren before the children are loaded). */
+  @bindable
+  hasChildrenPath: string | null = null;
+
+  @computedFrom('childrenPath', 'loadChildren')
+  get isTreeGrid() {
+    return !!this.childrenPath || !!this.loadChildren;
+  }
+
+  /** Set when the filter changes: the ancestors of the matching rows are expanded with the next refresh (tree mode). */
+  private expandTreeMatches = true;
+
+  /** Incremented when the tree states change to update the tree cell bindings. */
+  treeVersion = 0;
+
+  private treeStates = new Map<any, BsGridTreeState>();
+
+  private groupsCollapsed = false;
+  private groupToggles: { [id: string]: boolean } = {};
+  private groupedItems: any[] | undefined = undefined;
+
+  @computedFrom('groupBy', 'childrenPath', 'loadChildren')
+  get groupFields() {
+    if (!this.groupBy || this.isTreeGrid)
+      return [];
+
+    return typeof this.groupBy === 'string' ?
+      this.groupBy.split(/[\s,]+/).filter(field => !!field) :
+      this.groupBy;
+  }
+
+  /** Specifies whether only the double-clicked cell ('cell') or all editable cells of the row ('row') are edited inline. */
+  @bindable
+  editMode: 'cell' | 'row' = 'cell';
+
+  /** The validation controller used to validate inline edited rows (see BsValidation). */
+  @bindable
+  validationController: ValidationController | undefined = undefined;
+
+  editingRow: any = null;
+  editingColumn: BsColumn | null = null;
+  private editOriginalValues: { [field: string]: any } = {};
+
+  /** Shows a toolbar button to export the filtered rows as CSV or XLSX. */
+  @bindable
+  showExportButton = false;
+
+  /** Specifies whether the filter row is shown (automatically set when a column is filterable). */
+  showFilterRow = false;
+
+  private columnFilterStates: BsGridColumnFilterState[] = [];
+
+  @computedFrom('rowCount', 'pageSize')
   get pageCount() {
-    return Math.ceil((this.filteredCount > 0 ? this.filteredCount : 1) / this.pageSize);
+    return Math.ceil((this.rowCount > 0 ? this.rowCount : 1) / this.pageSize);
   }
 
   @computedFrom('currentIndex', 'pageSize')
@@ -187,9 +564,25 @@ export class BsGrid extends BsResizeContainer {
     return this.getPageNumberForIndex(this.currentIndex);
   }
 
-  @computedFrom('sortable', 'rows')
+  @computedFrom('sortable', 'rows', 'reorderable')
   get rowsSortable() {
-    return this.sortable;
+    return this.sortable && !this.reorderable;
+  }
+
+  /** Gets a value indicating whether all filtered items are loaded in infinite scroll mode. */
+  @computedFrom('displayedItems', 'rowCount')
+  get isEndOfData() {
+    return this.rowCount >= 0 && this.getLoadedRowCount() >= this.rowCount;
+  }
+
+  /**
+   * Gets the number of displayed items counted like rowCount: the group header rows inserted into the rows
+   * of loadData are not counted.
+   */
+  private getLoadedRowCount() {
+    if (!this.displayedItems)
+      return 0;
+    return this.items ? this.displayedItems.length : this.displayedItems.filter(row => !this.isGroupRow(row)).length;
   }
 
   @computedFrom('currentPage', 'pageCount')
@@ -203,10 +596,22 @@ export class BsGrid extends BsResizeContainer {
   }
 
   @observable
-  private currentSortColumn: BsColumn | undefined;
+  private currentSortColumns: BsGridSortColumn[] = [];
 
-  @observable
-  private currentSortOrder: 'asc' | 'desc';
+  currentSortColumnsChanged() {
+    this.clearCache();
+    this.selectionAnchorIndex = -1;
+  }
+
+  @computedFrom('currentSortColumns')
+  private get currentSortColumn() {
+    return this.currentSortColumns.length > 0 ? this.currentSortColumns[0].column : undefined;
+  }
+
+  @computedFrom('currentSortColumns')
+  private get currentSortOrder() {
+    return this.currentSortColumns.length > 0 ? this.currentSortColumns[0].order : 'asc';
+  }
 
   /**
    * You can use this in your cell templates to reference the binding context
@@ -224,6 +629,17 @@ export class BsGrid extends BsResizeContainer {
   @bindable
   valuePath: string | null = null;
 
+  /** The key used to save and restore the grid state (page, sort order, filter, columns and selection); the state is not saved when not set. */
+  @bindable
+  stateKey: string | null = null;
+
+  /** The storage used to save and restore the grid state (default: local storage, see BsGridDefaults.stateStorage). */
+  @bindable
+  stateStorage = BsGridDefaults.stateStorage;
+
+  private stateRestored = false;
+  private restoringState = false;
+
   constructor(private container: Container,
     element: Element,
     private viewCompiler: ViewCompiler,
@@ -234,6 +650,7 @@ export class BsGrid extends BsResizeContainer {
   bind(bindingContext: any) {
     this.isBound = true;
     this.parent = bindingContext;
+    this.observeItems();
   }
 
   attached() {
@@ -242,11 +659,22 @@ export class BsGrid extends BsResizeContainer {
       this.animate = (<any>this.animate).toLowerCase() === 'false' ? false : true;
     if (typeof this.sortable === 'string')
       this.sortable = (<any>this.sortable).toLowerCase() === 'false' ? false : true;
+    if (typeof this.highlightMatches === 'string')
+      this.highlightMatches = (<any>this.highlightMatches).toLowerCase() === 'true';
+    if (typeof this.reorderable === 'string')
+      this.reorderable = (<any>this.reorderable).toLowerCase() === 'true';
+    if (typeof this.resizableColumns === 'string')
+      this.resizableColumns = (<any>this.resizableColumns).toLowerCase() === 'false' ? false : true;
+    if (typeof this.reorderableColumns === 'string')
+      this.reorderableColumns = (<any>this.reorderableColumns).toLowerCase() === 'false' ? false : true;
+    if (typeof this.cachePages === 'string')
+      this.cachePages = (<any>this.cachePages).toLowerCase() === 'true';
 
     this.isBound = true;
     this.pageSize = 0;
     this.body.viewSlot = new ViewSlot(this.bodyElement, true);
     this.header.viewSlot = new ViewSlot(this.headerElement, true);
+    this.filterRow.viewSlot = new ViewSlot(this.headerElement, true);
     this.footer.viewSlot = new ViewSlot(this.headerElement, true);
 
     this.processColumns();
@@ -272,19 +700,37 @@ export class BsGrid extends BsResizeContainer {
       this.header.viewSlot = null;
     }
 
+    if (this.filterRow.viewSlot) {
+      this.filterRow.viewSlot.removeAll();
+      this.filterRow.viewSlot = null;
+    }
+
     if (this.footer.viewSlot) {
       this.footer.viewSlot.removeAll();
       this.footer.viewSlot = null;
     }
 
+    if (this.columnFilterTimer) {
+      clearTimeout(this.columnFilterTimer);
+    }
+
+    this.stopColumnResize();
+
+    // Discard the pending request: its rejection must not be reported on a detached grid
+    this.refreshVersion++;
+    this.refreshingGrid = false;
+    this.abortRequest();
+
     super.detached();
   }
 
   unbind() {
     this.isBound = false;
+    this.observeItems();
   }
 
   loadDataChanged() {
+    this.clearCache();
     this.refreshInternal();
   }
 
@@ -292,14 +738,95 @@ export class BsGrid extends BsResizeContainer {
     Promise.all(this.columns.map(c => c.waitForBinding())).then(() => this.processColumns());
   }
 
+  rowDetailsChanged() {
+    this.processColumns();
+  }
+
+  selectionModeChanged() {
+    this.processColumns();
+  }
+
+  showCheckboxColumnChanged() {
+    this.processColumns();
+  }
+
+  horizontalScrollChanged() {
+    this.processColumns();
+  }
+
+  highlightMatchesChanged() {
+    this.processColumns();
+  }
+
+  reorderableChanged() {
+    this.processColumns();
+    this.refreshInternal();
+  }
+
   itemsChanged() {
+    this.observeItems();
+    this.refreshInternal();
+  }
+
+  private itemsSubscription: Disposable | null = null;
+
+  /** Refreshes the grid when items are added to or removed from the items array (e.g. with push or splice). */
+  private observeItems() {
+    if (this.itemsSubscription) {
+      this.itemsSubscription.dispose();
+      this.itemsSubscription = null;
+    }
+    if (this.items && this.isBound)
+      this.itemsSubscription = this.container.get(BindingEngine).collectionObserver(this.items)
+        .subscribe(() => this.refreshInternal());
+  }
+
+  groupByChanged() {
+    this.processColumns();
+    this.refreshInternal();
+  }
+
+  childrenPathChanged() {
+    this.processColumns();
+    this.refreshInternal();
+  }
+
+  loadChildrenChanged() {
+    this.processColumns();
     this.refreshInternal();
   }
 
   filterChanged() {
+    this.currentQuery = this.getQuery();
+    this.expandTreeMatches = true;
+    this.clearCache();
+    this.selectionAnchorIndex = -1;
+    this.clearSelectionDescriptor();
+    this.resetScrollPosition();
     this.refreshInternal();
   }
 
+  /** Set to false to disable resizing of the columns by the user. You can also disable resizing for individual columns: see Column.resizable. */
+  @bindable
+  resizableColumns = true;
+
+  private columnFilterTimer: any;
+  onColumnFilterChanged() {
+    if (this.columnFilterTimer) {
+      clearTimeout(this.columnFilterTimer);
+    }
+
+    this.columnFilterTimer = setTimeout(() => {
+      this.columnFilterTimer = null;
+      this.expandTreeMatches = true;
+      this.clearCache();
+      this.selectionAnchorIndex = -1;
+      this.clearSelectionDescriptor();
+      this.resetScrollPosition();
+      this.refreshInternal();
+    }, 300);
+  }
+
   itemsPerPageChanged() {
     this.containerHeightChanged();
   }
@@ -315,7 +842,7 @@ export class BsGrid extends BsResizeContainer {
       this.pageSize = this.itemsPerPage ? this.itemsPerPage : Math.floor((this.containerHeight - this.itemHeight) / this.itemHeight);
 
       if (previousPageSize !== this.pageSize) {
-        if (this.displayedItems && this.displayedItems.length > this.pageSize)
+        if (this.scrollMode === 'paging' && this.displayedItems && this.displayedItems.length > this.pageSize)
           this.displayedItems = this.displayedItems.slice(0, this.pageSize);
 
         this.timer = setTimeout(() => {
@@ -330,163 +857,1651 @@ export class BsGrid extends BsResizeContainer {
     }
   }
 
-  private dirty = false;
   private isBound = false;
   private refreshingGrid = false;
 
+  /** The error of the last failed loadData call (cleared when the data is loaded again). */
+  loadError: any = null;
+
+  /** Caches the loaded pages of loadData grids and prefetches the next page (paging mode). */
+  @bindable
+  cachePages = false;
+
+  /** The time in milliseconds after which a cached page is loaded again (0: cached until refreshed). */
+  @bindable
+  cacheTimeout = 300000;
+
+  private pageCache: { [key: string]: { promise: Promise<BsGridDataResponse>, time: number } } = {};
+
+  private refreshVersion = 0;
+  private abortController: { signal: BsGridAbortSignal, abort(): void } | null = null;
+
   getCurrentGridDataRequest() {
+    let skip = this.pageSize * this.currentPage;
+    let take = this.pageSize;
+    if (this.scrollMode === 'virtual') {
+      skip = this.virtualSkip;
+      take = this.pageSize + 1 + 2 * this.virtualBuffer;
+    } else if (this.scrollMode === 'infinite') {
+      skip = this.infiniteSkip;
+      // The first request loads two pages: one page always fits into the body, which would never scroll to load more
+      take = this.infiniteSkip > 0 ? this.pageSize : Math.max(2 * this.pageSize, this.infiniteCount);
+    }
+
     return <BsGridDataRequest>{
-      skip: this.pageSize * this.currentPage,
-      take: this.pageSize,
-      sortColumn: this.currentSortColumn,
+      skip: skip,
+      take: take,
+      sortColumn: this.reorderable ? undefined : this.currentSortColumn,
       sortOrder: this.currentSortOrder,
-      filter: this.filter
+      sortColumns: this.reorderable ? [] : this.currentSortColumns.slice(),
+      filter: this.filter,
+      query: this.currentQuery,
+      columnFilters: this.getColumnFilters(),
+      groupBy: this.groupFields.slice()
     };
   }
 
+  /**
+   * Gets the filter parsed with the search syntax: "quoted phrases", field:value (field or header of a column),
+   * -term, field:>value (>, >=, <, <=, =) and alternatives separated by OR.
+   */
+  getQuery() {
+    return parseQuery(this.filter || '', this.getColumns());
+  }
+
+  /** Gets the active filters of the filter row. */
+  getColumnFilters() {
+    let filters: BsGridColumnFilter[] = [];
+    for (let state of this.columnFilterStates) {
+      let column = state.column;
+      if (!column.filterable || this.displayedColumns.indexOf(column) === -1)
+        continue;
+
+      if (column.filterType === 'number' || column.filterType === 'date') {
+        let from = column.filterType === 'number' ? this.parseNumber(state.from) : this.parseDate(state.from);
+        let to = column.filterType === 'number' ? this.parseNumber(state.to) : this.parseDate(state.to);
+        if (from !== undefined || to !== undefined)
+          filters.push({ column: column, type: column.filterType, operator: 'range', from: from, to: to });
+      } else if (column.filterType === 'boolean') {
+        if (state.value === 'true' || state.value === 'false')
+          filters.push({ column: column, type: column.filterType, operator: 'equals', value: state.value === 'true' });
+      } else if (column.filterType === 'list') {
+        if (state.value !== undefined && state.value !== null && state.value !== '')
+          filters.push({ column: column, type: column.filterType, operator: 'equals', value: state.value });
+      } else if (state.value) {
+        filters.push({ column: column, type: column.filterType, operator: state.operator, value: state.value });
+      }
+    }
+    return filters;
+  }
+
+  private parseNumber(value: string) {
+    let result = value !== undefined && value !== null && String(value).trim() !== '' ? parseFloat(value) : NaN;
+    return isNaN(result) ? undefined : result;
+  }
+
+  private parseDate(value: string) {
+    let match = value ? /^(\d{4})-(\d{2})-(\d{2})$/.exec(value) : null;
+    return match ? new Date(parseInt(match[1], 10), parseInt(match[2], 10) - 1, parseInt(match[3], 10)) : undefined;
+  }
+
   async refresh() {
+    this.clearCache();
     this.autoInit = true;
     await this.refreshInternal();
   }
 
   private loadDataFromItems(request: BsGridDataRequest): Promise<BsGridDataResponse> {
+    // Grouped items are paged including the group header rows, the filtered count is the number of data rows
+    let items = this.groupedItems || this.actualItems;
     return Promise.resolve(<BsGridDataResponse>{
-      items: this.actualItems ? this.actualItems.slice(request.skip, request.skip + request.take) : undefined,
+      items: items ? items.slice(request.skip, request.skip + request.take) : undefined,
       filteredCount: this.actualItems ? this.actualItems.length : -1,
       totalCount: this.items ? this.items.length : -1
     });
   }
 
-  private async refreshInternal() {
-    this.actualItems = this.items ? this.sortItems(this.filterItems(this.items)) : undefined;
+  /**
+   * Loads the displayed items. Set moveWindow when only the page, the virtual window or the appended rows change:
+   * the filtered, sorted and grouped local items are then reused instead of being computed again.
+   */
+  private async refreshInternal(moveWindow = false) {
+    if (!moveWindow || (this.items && !this.actualItems)) {
+      this.actualItems = this.items ? (this.isTreeGrid ?
+        this.flattenTree(this.items, 0, this.isFiltered()) :
+        this.sortItems(this.filterItemsByColumns(this.filterItems(this.items)))) : undefined;
+      this.groupedItems = this.actualItems && this.groupFields.length > 0 ?
+        this.groupItems(this.sortItemsByGroups(this.actualItems)) : undefined;
+      if (this.actualItems)
+        this.aggregates = this.computeAggregates(this.actualItems);
+      if (this.items && this.isTreeGrid)
+        this.expandTreeMatches = false;
+    }
 
     if (!this.autoInit || (!this.loadData && !this.items) || !this.isBound || this.pageSize === 0)
       return;
 
-    if (!this.refreshingGrid) {
-      this.refreshingGrid = true;
+    // Abort the pending request: only the response of the latest request is applied
+    let version = ++this.refreshVersion;
+    this.abortRequest();
+    let abortController = this.createAbortController();
+    this.abortController = abortController;
+
+    this.refreshingGrid = true;
+    let request = this.getCurrentGridDataRequest();
+    if (abortController)
+      request.signal = abortController.signal;
+
+    let result: BsGridDataResponse;
+    try {
       let promise = this.items ?
-        this.loadDataFromItems(this.getCurrentGridDataRequest()) :
-        this.loadData!(this.getCurrentGridDataRequest());
-      let result = (<any>promise.then) ? await promise : <any>promise;
+        this.loadDataFromItems(request) :
+        this.loadPage(request);
+      result = (<any>promise.then) ? await promise : <any>promise;
+    } catch (error) {
+      if (version === this.refreshVersion) {
+        this.abortController = null;
+        this.refreshingGrid = false;
+        this.loadError = error;
+        this.dispatchLoadErrorEvent(error, request);
+      }
+      return;
+    }
 
-      this.totalCount = result.totalCount;
-      this.filteredCount = result.filteredCount;
-      this.displayedItems = result.items;
+    if (version !== this.refreshVersion)
+      return;
 
-      if (this.filteredCount !== -1 && this.currentIndex > this.filteredCount)
-        this.currentIndex = 0;
+    this.abortController = null;
+    this.loadError = null;
 
-      if (this.bodyElement) {
-        if (this.body.scrollListener)
-          this.bodyElement.removeEventListener('scroll', this.body.scrollListener);
+    this.totalCount = result.totalCount;
+    this.filteredCount = result.filteredCount;
+    this.rowCount = this.items && this.groupedItems ? this.groupedItems.length : result.filteredCount;
 
-        this.bodyElement.scrollTop = 0;
-        this.bodyElement.classList.add('scrollable-bottom');
-        this.body.scrollListener = () => this.onBodyScroll();
-        this.bodyElement.addEventListener('scroll', this.body.scrollListener);
-      }
+    let items = result.items && !this.items && this.groupFields.length > 0 ? this.groupItems(result.items) : result.items;
+    if (items && !this.items && this.isTreeGrid)
+      items = this.flattenTree(items, 0, false, false);
 
-      this.rendered = true;
-      this.refreshingGrid = false;
+    if (this.scrollMode === 'infinite' && request.skip > 0 && this.displayedItems) {
+      this.displayedItems = this.displayedItems.concat(items || []);
+    } else {
+      this.displayedItems = items;
+    }
+    this.infiniteCount = this.getLoadedRowCount();
+    this.updateRowDetailStates();
+    this.treeVersion++;
+    this.updateFocusedIndex(this.scrollMode === 'virtual' ? request.skip : 0);
+    this.displayedItemsOffset = this.scrollMode === 'infinite' ? 0 : request.skip;
+
+    if (!this.items)
+      this.aggregates = result.aggregates || {};
+
+    if (this.scrollMode === 'virtual') {
+      let renderedCount = result.items ? result.items.length : 0;
+      this.virtualOffsetTop = request.skip * this.itemHeight;
+      this.virtualOffsetBottom = Math.max(0, this.rowCount - request.skip - renderedCount) * this.itemHeight;
+    } else {
+      this.virtualOffsetTop = 0;
+      this.virtualOffsetBottom = 0;
+    }
 
-      if (this.dirty) {
-        this.dirty = false;
-        await this.refreshInternal();
-      }
-    } else
-      this.dirty = true;
-  }
+    if (this.rowCount !== -1 && this.currentIndex > this.rowCount)
+      this.currentIndex = 0;
 
-  getPageNumberForIndex(index: number) {
-    return Math.floor(index / this.pageSize);
-  }
+    if (this.bodyElement) {
+      if (this.body.scrollListener)
+        this.bodyElement.removeEventListener('scroll', this.body.scrollListener);
 
-  async showItemAtIndex(index: number) {
-    let previousCurrentPage = this.currentPage;
-    this.currentIndex = index;
-    let currentPage = this.currentPage;
-    if (previousCurrentPage !== currentPage) {
-      await this.refreshInternal();
+      this.bodyElement.scrollTop = 0;
+      this.bodyElement.classList.add('scrollable-bottom');
+      this.body.scrollListener = () => this.onBodyScroll();
+      this.bodyElement.addEventListener('scroll', this.body.scrollListener);
     }
+
+    this.rendered = true;
+    this.refreshingGrid = false;
+    this.saveState();
+
+    if (this.cachePages && !this.items && this.scrollMode === 'paging' && request.skip + request.take < this.filteredCount)
+      this.prefetchPage(Object.assign({}, request, { skip: request.skip + request.take, signal: undefined }));
   }
 
-  async showPage(pageNumber: number) {
-    if (pageNumber !== this.currentPage && pageNumber >= 0 && pageNumber < this.pageCount) {
-      this.currentIndex = this.pageSize * pageNumber;
-      await this.refreshInternal();
-      return true;
+  /** Removes all cached pages (see cachePages). */
+  clearCache() {
+    this.pageCache = {};
+  }
+
+  private loadPage(request: BsGridDataRequest): Promise<BsGridDataResponse> {
+    if (!this.cachePages)
+      return this.loadData!(request);
+
+    let key = this.getCacheKey(request);
+    let entry = this.pageCache[key];
+    if (entry && (!this.cacheTimeout || Date.now() - entry.time < this.cacheTimeout))
+      return entry.promise;
+
+    // Cached requests are shared by later refreshes: they must not be aborted with the signal of this refresh
+    let promise = Promise.resolve(this.loadData!(Object.assign({}, request, { signal: undefined })));
+    let newEntry = { promise: promise, time: Date.now() };
+    this.pageCache[key] = newEntry;
+
+    // Failed or aborted requests are not cached
+    promise.catch(() => {
+      if (this.pageCache[key] === newEntry)
+        delete this.pageCache[key];
+    });
+    return promise;
+  }
+
+  private prefetchPage(request: BsGridDataRequest) {
+    this.loadPage(request).catch(() => { /* a failed prefetch is loaded again when the page is shown */ });
+  }
+
+  private getCacheKey(request: BsGridDataRequest) {
+    return JSON.stringify({
+      skip: request.skip,
+      take: request.take,
+      sort: request.sortColumns.map(s => ({ key: this.getColumnKey(s.column), order: s.order })),
+      filter: request.filter,
+      columnFilters: request.columnFilters.map(f => ({
+        key: this.getColumnKey(f.column), operator: f.operator, value: f.value, from: f.from, to: f.to
+      })),
+      groupBy: request.groupBy
+    });
+  }
+
+  /** Loads the data again after loadData failed (see loadError). */
+  retry() {
+    this.loadError = null;
+    return this.refreshInternal();
+  }
+
+  private createAbortController() {
+    let abortControllerType = (<any>window).AbortController;
+    return abortControllerType ? <{ signal: BsGridAbortSignal, abort(): void }>new abortControllerType() : null;
+  }
+
+  private abortRequest() {
+    if (this.abortController) {
+      this.abortController.abort();
+      this.abortController = null;
+    }
+  }
+
+  /** Raises the load-error event for a failed request or, with the row, for failed loadDetail and loadChildren calls. */
+  private dispatchLoadErrorEvent(error: any, request: BsGridDataRequest | undefined, row?: any) {
+    let event = new CustomEvent('load-error', {
+      detail: {
+        error: error,
+        request: request,
+        row: row
+      }
+    });
+    this.element.dispatchEvent(event);
+  }
+
+  getPageNumberForIndex(index: number) {
+    return Math.floor(index / this.pageSize);
+  }
+
+  async showItemAtIndex(index: number) {
+    if (this.scrollMode === 'virtual') {
+      this.currentIndex = index;
+      if (this.scrollElement)
+        this.scrollElement.scrollTop = index * this.itemHeight;
+      await this.updateVirtualWindow(true);
+      return;
+    }
+
+    let previousCurrentPage = this.currentPage;
+    this.currentIndex = index;
+    let currentPage = this.currentPage;
+    if (previousCurrentPage !== currentPage) {
+      await this.refreshInternal(true);
+    }
+  }
+
+  /** Loads the rows around the scroll position when the visible rows are not rendered yet (virtual scroll mode only). */
+  private async updateVirtualWindow(force = false) {
+    if (this.scrollMode !== 'virtual' || !this.scrollElement)
+      return;
+
+    let firstVisibleIndex = Math.floor(this.scrollElement.scrollTop / this.itemHeight);
+    let renderedCount = this.displayedItems ? this.displayedItems.length : 0;
+    let lastVisibleIndex = Math.min(firstVisibleIndex + this.pageSize, Math.max(this.rowCount - 1, 0));
+
+    this.currentIndex = firstVisibleIndex;
+    if (force || firstVisibleIndex < this.virtualSkip || lastVisibleIndex >= this.virtualSkip + renderedCount) {
+      this.virtualSkip = Math.max(0, firstVisibleIndex - this.virtualBuffer);
+      await this.refreshInternal(true);
+    }
+  }
+
+  /** Appends the next rows to the displayed items (infinite scroll mode only). */
+  async loadMore() {
+    if (this.scrollMode !== 'infinite' || this.loadingMore || this.isEndOfData || !this.displayedItems)
+      return;
+
+    this.loadingMore = true;
+    try {
+      this.infiniteSkip = this.getLoadedRowCount();
+      await this.refreshInternal(true);
+    } finally {
+      this.infiniteSkip = 0;
+      this.loadingMore = false;
+    }
+  }
+
+  protected onScroll() {
+    this.onHorizontalScroll();
+
+    if (this.scrollMode === 'virtual')
+      this.updateVirtualWindow();
+    else if (this.scrollMode === 'infinite' && this.scrollElement) {
+      let distanceToBottom = this.scrollElement.scrollHeight - this.scrollElement.scrollTop - this.scrollElement.clientHeight;
+      if (distanceToBottom <= this.itemHeight)
+        this.loadMore();
+    }
+  }
+
+  /** Moves back to the first item, used when the filter or sort order changes. */
+  private resetScrollPosition() {
+    if (this.scrollMode === 'virtual' || this.scrollMode === 'infinite') {
+      this.currentIndex = 0;
+      this.virtualSkip = 0;
+      this.infiniteSkip = 0;
+      this.infiniteCount = 0;
+      if (this.scrollElement)
+        this.scrollElement.scrollTop = 0;
+    }
+  }
+
+  async showPage(pageNumber: number) {
+    if (pageNumber !== this.currentPage && pageNumber >= 0 && pageNumber < this.pageCount) {
+      this.currentIndex = this.pageSize * pageNumber;
+      await this.refreshInternal(true);
+      return true;
+    }
+    return false;
+  }
+
+  /** Sorts by the clicked column; with the shift key pressed the column is added to (or toggled in) the current sort columns. */
+  onColumnHeaderClick(column: BsColumn, event?: MouseEvent) {
+    if (!column.sortable || !this.rowsSortable || this.columnResizeEnded)
+      return;
+
+    let existing = this.currentSortColumns.find(s => s.column === column);
+    if (event && event.shiftKey) {
+      this.currentSortColumns = existing ?
+        this.currentSortColumns.map(s => s === existing ? { column: column, order: this.toggleSortOrder(s.order) } : s) :
+        this.currentSortColumns.concat([{ column: column, order: column.defaultSortOrder }]);
+    } else {
+      this.currentSortColumns = [{
+        column: column,
+        order: existing && this.currentSortColumns.length === 1 ? this.toggleSortOrder(existing.order) : column.defaultSortOrder
+      }];
+    }
+
+    this.resetScrollPosition();
+    return this.refreshInternal();
+  }
+
+  /** Gets the sort order of the given column or undefined if the column is not sorted. */
+  protected getSortOrder(column: BsColumn, sortColumns: BsGridSortColumn[]) {
+    let sortColumn = sortColumns.find(s => s.column === column);
+    return sortColumn ? sortColumn.order : undefined;
+  }
+
+  /** Gets the 1-based sort priority of the given column or an empty string when only a single column is sorted. */
+  protected getSortPriority(column: BsColumn, sortColumns: BsGridSortColumn[]) {
+    let index = sortColumns.findIndex(s => s.column === column);
+    return index !== -1 && sortColumns.length > 1 ? String(index + 1) : '';
+  }
+
+  private toggleSortOrder(order: 'asc' | 'desc'): 'asc' | 'desc' {
+    return order === 'asc' ? 'desc' : 'asc';
+  }
+
+  /** Exports the rows of the given scope with the current sort order and filter as file download. */
+  async export(options: BsGridExportOptions) {
+    let columns = this.displayedColumns.filter(column => column.exportValue || (column.field && column.field.length > 0));
+    let rows = await this.getExportRows(options.scope || 'filtered');
+
+    let data = [columns.map(column => this.getColumnHeaderText(column))].concat(
+      rows.map(row => columns.map(column => this.getExportValue(column, row))));
+
+    let fileName = (options.fileName || 'export') + '.' + options.format;
+    if (options.format === 'xlsx')
+      downloadFile(createXlsx(data), fileName);
+    else
+      downloadFile(new Blob(['\uFEFF' + createCsv(data)], { type: 'text/csv;charset=utf-8' }), fileName);
+  }
+
+  /**
+   * Copies the given rows (default: the selected rows or the focused row) with the column headers and the
+   * displayed values to the clipboard as tab-separated text and HTML table. The cancelable copying event
+   * is raised first; its text and html can be changed to customize the copied content.
+   */
+  async copy(rows?: any[]) {
+    let copiedRows = rows || await this.getCopyRows();
+    if (copiedRows.length === 0)
+      return false;
+
+    let columns = this.displayedColumns.filter(column => column.exportValue || (column.field && column.field.length > 0));
+    let data = [columns.map(column => this.getColumnHeaderText(column))].concat(
+      copiedRows.map(row => columns.map(column => this.getCopyValue(column, row))));
+
+    let detail = {
+      rows: copiedRows,
+      columns: columns,
+      text: createTsv(data),
+      html: createHtmlTable(data)
+    };
+    if (!this.element.dispatchEvent(new CustomEvent('copying', { detail: detail, cancelable: true })))
+      return false;
+
+    return copyToClipboard(detail.text, detail.html);
+  }
+
+  private async getCopyRows() {
+    let rows = this.selectionMode !== SelectionMode.none ? await this.getExportRows('selected') : [];
+    let focusedRow = this.displayedItems ? this.displayedItems[this.focusedIndex] : undefined;
+    return rows.length > 0 ? rows : (focusedRow && !this.isGroupRow(focusedRow) ? [focusedRow] : []);
+  }
+
+  /** Gets the displayed (formatted) value of the column for copying. */
+  private getCopyValue(column: BsColumn, row: any) {
+    if (column.exportValue || !this.isFormattedColumn(column))
+      return this.getExportValue(column, row);
+
+    return column.field
+      .map(field => this.getObjectValueFromPath(field, row))
+      .filter(value => value !== undefined && value !== null)
+      .map(value => this.formatCellValue(column, value))
+      .join(' ');
+  }
+
+  private async getExportRows(scope: 'page' | 'filtered' | 'selected'): Promise<any[]> {
+    if (scope === 'page')
+      return this.displayedItems ? this.displayedItems.filter(row => !this.isGroupRow(row)) : [];
+
+    if (scope === 'selected') {
+      if (this.selectionDescriptor) {
+        let descriptor = this.selectionDescriptor;
+        let filteredRows = await this.getExportRows('filtered');
+        return filteredRows.filter(row => !this.isGroupRow(row) && this.isSelected(this.value, this.values, row, descriptor));
+      }
+      if (this.valuePath) {
+        let rows = this.items ? this.actualItems : this.displayedItems;
+        return rows ? rows.filter(row => !this.isGroupRow(row) && this.isSelected(this.value, this.values, row)) : [];
+      }
+      return this.values && this.values.length > 0 ? this.values.slice() : (this.value ? [this.value] : []);
+    }
+
+    if (this.items)
+      return this.actualItems ? this.actualItems.slice() : [];
+
+    let rows: any[] = [];
+    if (this.loadData) {
+      let request = this.getCurrentGridDataRequest();
+      let take = BsGridDefaults.exportPageSize;
+      for (let skip = 0; ; skip += take) {
+        let result = await this.loadData(Object.assign({}, request, { skip: skip, take: take }));
+        let items = result.items || [];
+        rows = rows.concat(items);
+        if (items.length === 0 || rows.length >= result.filteredCount)
+          break;
+      }
+    }
+    return rows;
+  }
+
+  private getExportValue(column: BsColumn, row: any) {
+    if (column.exportValue)
+      return column.exportValue.bind(this.parent)(row);
+
+    let values = column.field.map(field => this.getObjectValueFromPath(field, row));
+    return values.length === 1 ? values[0] : values.filter(v => v !== undefined && v !== null).join(' ');
+  }
+
+  protected getColumnHeaderText(column: BsColumn) {
+    let element = document.createElement('div');
+    element.innerHTML = column.header || '';
+    let text = (element.textContent || '').replace(/\s+/g, ' ').trim();
+    return text || (column.field ? column.field.join(' ') : '');
+  }
+
+  // Column resizing
+
+  private columnResize: { column: BsColumn, startX: number, startWidth: number } | null = null;
+  private columnResizeEnded = false;
+  private columnResizeMoveCallback = (event: MouseEvent) => this.onColumnResizeMove(event);
+  private columnResizeEndCallback = () => this.endColumnResize();
+
+  protected startColumnResize(column: BsColumn, event: MouseEvent) {
+    event.preventDefault();
+    event.stopPropagation();
+
+    // Fix the current widths so that header, body and footer cells stay aligned
+    this.freezeColumnWidths();
+
+    this.columnResize = { column: column, startX: event.pageX, startWidth: Number(column.width) || 0 };
+    document.addEventListener('mousemove', this.columnResizeMoveCallback);
+    document.addEventListener('mouseup', this.columnResizeEndCallback);
+  }
+
+  private onColumnResizeMove(event: MouseEvent) {
+    if (this.columnResize) {
+      let column = this.columnResize.column;
+      column.width = Math.max(column.minWidth || 0, this.columnResize.startWidth + event.pageX - this.columnResize.startX);
+      this.updateColumnLayout();
+    }
+  }
+
+  private endColumnResize() {
+    if (this.columnResize) {
+      let column = this.columnResize.column;
+      this.stopColumnResize();
+      this.dispatchColumnResizedEvent(column);
+
+      // Ignore the click event which is raised on the header cell after the mouse button is released
+      this.columnResizeEnded = true;
+      setTimeout(() => this.columnResizeEnded = false);
+    }
+  }
+
+  private stopColumnResize() {
+    this.columnResize = null;
+    document.removeEventListener('mousemove', this.columnResizeMoveCallback);
+    document.removeEventListener('mouseup', this.columnResizeEndCallback);
+  }
+
+  /** Resizes the column to the width of its widest header or cell content. */
+  autoFitColumn(column: BsColumn) {
+    let index = this.displayedColumns.indexOf(column);
+    if (index === -1)
+      return;
+
+    this.freezeColumnWidths();
+
+    let width = 0;
+    let rows = [this.headerElement, this.bodyElement, this.footerElement]
+      .filter(element => !!element)
+      .map(element => Array.prototype.slice.call(element.querySelectorAll('tr')) as HTMLTableRowElement[])
+      .reduce((all, current) => all.concat(current), [])
+      .filter(row => !row.classList.contains('bs-grid-group-row') && !row.closest('.bs-grid-row-detail'));
+
+    for (let row of rows) {
+      let cell = row.children[this.leadingCellCount + index] as HTMLElement;
+      if (cell)
+        width = Math.max(width, this.getCellContentWidth(cell));
+    }
+
+    if (width > 0) {
+      column.width = Math.max(column.minWidth || 0, Math.ceil(width));
+      this.dispatchColumnResizedEvent(column);
     }
+  }
+
+  private getCellContentWidth(cell: HTMLElement) {
+    let width = 0;
+    for (let i = 0; i < cell.childNodes.length; i++) {
+      let node = cell.childNodes[i];
+      if (node instanceof HTMLElement && node.classList.contains('bs-grid-column-resizer'))
+        continue;
+
+      let range = document.createRange();
+      range.selectNodeContents(node);
+      width += range.getBoundingClientRect().width;
+    }
+
+    let styles = getComputedStyle(cell);
+    return width + parseFloat(styles.paddingLeft!) + parseFloat(styles.paddingRight!);
+  }
+
+  private freezeColumnWidths() {
+    let headerRow = this.headerElement ? this.headerElement.querySelector('tr') : null;
+    if (headerRow) {
+      this.displayedColumns.forEach((column, index) => {
+        let cell = headerRow!.children[this.leadingCellCount + index] as HTMLElement;
+        if (!column.width && cell)
+          column.width = cell.offsetWidth;
+      });
+      this.updateColumnLayout();
+    }
+  }
+
+  /** Updates the table width and the sticky offsets of the pinned columns after the columns or their widths changed. */
+  private updateColumnLayout() {
+    let columns = this.displayedColumns;
+    // Widths bound as strings (e.g. width.bind="'120'") would be concatenated
+    let getWidth = (column: BsColumn) => Number(column.width) || BsGridDefaults.columnWidth;
+    let leadingWidth = this.leadingCellCount * 30;
+
+    this.hasHorizontalScroll = this.horizontalScroll || columns.some(column => !!column.pinned);
+    this.tableStyle = this.hasHorizontalScroll ?
+      `width: ${leadingWidth + columns.reduce((width, column) => width + getWidth(column), 0)}px; min-width: 100%; table-layout: fixed;` : '';
+
+    this.hasLeftPinnedColumns = columns.some(column => column.pinned === 'left');
+
+    this.pinnedStyles = columns.map((column, index) => {
+      if (column.pinned === 'left') {
+        let offset = columns.slice(0, index).reduce((width, c) => width + getWidth(c), leadingWidth);
+        return `width: ${getWidth(column)}px; left: ${offset}px;`;
+      } else if (column.pinned === 'right') {
+        let offset = columns.slice(index + 1).reduce((width, c) => width + getWidth(c), 0);
+        return `width: ${getWidth(column)}px; right: ${offset}px;`;
+      }
+      return '';
+    });
+  }
+
+  private onHorizontalScroll() {
+    if (this.headerScrollElement && this.scrollElement)
+      this.headerScrollElement.scrollLeft = this.scrollElement.scrollLeft;
+  }
+
+  private dispatchColumnResizedEvent(column: BsColumn) {
+    this.saveState();
+
+    let event = new CustomEvent('column-resized', {
+      detail: {
+        column: column,
+        width: column.width,
+        widths: this.columns.map(c => c.width)
+      }
+    });
+    this.element.dispatchEvent(event);
+  }
+
+  // Column reordering and visibility
+
+  private draggedColumn: BsColumn | null = null;
+
+  protected onColumnDragStart(column: BsColumn, event: DragEvent) {
+    this.draggedColumn = column;
+    event.dataTransfer.effectAllowed = 'move';
+    event.dataTransfer.setData('text', column.header || '');
+    return true;
+  }
+
+  protected onColumnDragOver(column: BsColumn, event: DragEvent) {
+    if (!this.draggedColumn || this.draggedColumn === column)
+      return true;
+
+    event.dataTransfer.dropEffect = 'move';
     return false;
   }
 
-  onColumnHeaderClick(column: BsColumn) {
-    if (!column.sortable || !this.rowsSortable)
-      return;
+  protected onColumnDrop(column: BsColumn) {
+    if (this.draggedColumn && this.draggedColumn !== column)
+      this.moveColumn(this.draggedColumn, this.orderedColumns.indexOf(column));
+    this.draggedColumn = null;
+  }
+
+  protected onColumnDragEnd() {
+    this.draggedColumn = null;
+    return true;
+  }
+
+  /** Moves the column to the given index of all columns (see orderedColumns). */
+  moveColumn(column: BsColumn, index: number) {
+    let columns = this.orderedColumns.filter(c => c !== column);
+    if (columns.length === this.orderedColumns.length || index < 0)
+      return;
+
+    columns.splice(Math.min(index, columns.length), 0, column);
+    this.orderedColumns = columns;
+    this.processColumns();
+  }
+
+  toggleColumnChooser() {
+    this.columnChooserOpen = !this.columnChooserOpen;
+  }
+
+  // Inline editing
+
+  protected isEditing(row: any, column: BsColumn, editingRow: any, editingColumn: BsColumn | null) {
+    return row === editingRow && column.editable && (this.editMode === 'row' || column === editingColumn);
+  }
+
+  /** Starts the inline editing of the given row (and column in the 'cell' edit mode); a currently edited row is committed first. */
+  async startEdit(row: any, column?: BsColumn) {
+    if (!this.enabled || this.isGroupRow(row) || (row === this.editingRow && (this.editMode === 'row' || column === this.editingColumn)))
+      return false;
+
+    if (this.editingRow && !(await this.commitEdit()))
+      return false;
+
+    let editedColumns = this.getEditedColumns(column);
+    if (editedColumns.length === 0)
+      return false;
+
+    this.editOriginalValues = {};
+    for (let editedColumn of editedColumns)
+      this.editOriginalValues[editedColumn.field[0]] = this.getObjectValueFromPath(editedColumn.field[0], row);
+
+    this.editingColumn = column || editedColumns[0];
+    this.editingRow = row;
+
+    setTimeout(() => {
+      let input = this.bodyElement ? this.bodyElement.querySelector('.bs-grid-editor input, .bs-grid-editor select, .bs-grid-editor textarea') : null;
+      if (input)
+        (<HTMLElement>input).focus();
+    });
+    return true;
+  }
+
+  /** Validates and applies the inline edited values; returns false when the row is invalid. */
+  async commitEdit() {
+    let row = this.editingRow;
+    if (!row)
+      return true;
+
+    if (this.validationController) {
+      let result = await this.validationController.validate({ object: row });
+      if (!result.valid)
+        return false;
+    }
+
+    let oldValues: { [field: string]: any } = {};
+    let newValues: { [field: string]: any } = {};
+    for (let field of Object.keys(this.editOriginalValues)) {
+      let value = this.getObjectValueFromPath(field, row);
+      if (value !== this.editOriginalValues[field]) {
+        oldValues[field] = this.editOriginalValues[field];
+        newValues[field] = value;
+      }
+    }
+
+    this.stopEdit();
+
+    if (Object.keys(newValues).length > 0) {
+      this.aggregates = this.actualItems ? this.computeAggregates(this.actualItems) : this.aggregates;
+      this.element.dispatchEvent(new CustomEvent('row-changed', {
+        detail: {
+          row: row,
+          oldValues: oldValues,
+          newValues: newValues
+        }
+      }));
+    }
+    return true;
+  }
+
+  /** Reverts the inline edited values. */
+  cancelEdit() {
+    let row = this.editingRow;
+    if (!row)
+      return;
+
+    for (let field of Object.keys(this.editOriginalValues))
+      this.setObjectValueFromPath(field, row, this.editOriginalValues[field]);
+
+    if (this.validationController)
+      this.validationController.reset({ object: row });
+
+    this.stopEdit();
+  }
+
+  protected onEditorKeyDown(event: KeyboardEvent) {
+    if (event.keyCode === 13) {
+      this.commitEdit();
+      return false;
+    } else if (event.keyCode === 27) {
+      this.cancelEdit();
+      return false;
+    }
+    return true;
+  }
+
+  private stopEdit() {
+    this.editingRow = null;
+    this.editingColumn = null;
+    this.editOriginalValues = {};
+  }
+
+  private getEditedColumns(column?: BsColumn) {
+    return this.displayedColumns.filter(c => c.editable && c.field && c.field.length > 0 &&
+      (this.editMode === 'row' || !column || c === column));
+  }
+
+  private getEditorTemplate(column: BsColumn, index: number) {
+    if (column.editTemplate && column.editTemplate.trim())
+      return column.editTemplate;
+
+    // The bsValidate behavior only supports direct properties of the row
+    let field = column.field[0];
+    let value = `row.${field}` + (field.indexOf('.') === -1 ? ' & bsValidate:validationController' : '');
+    if (column.editType === 'select')
+      return `<bs-select value.bind="${value}" items.bind="displayedColumns[${index}].editOptions"></bs-select>`;
+    else if (column.editType === 'date')
+      return `<bs-datepicker value.bind="${value}"></bs-datepicker>`;
+    else if (column.editType === 'boolean')
+      return `<bs-checkbox value.bind="${value}"></bs-checkbox>`;
+    else
+      return `<bs-textbox value.bind="${value}"></bs-textbox>`;
+  }
+
+  // Keyboard navigation
+
+  protected onKeyDown(event: KeyboardEvent) {
+    let target = event.target as HTMLElement;
+    if (this.editingRow || target.isContentEditable || /^(input|select|textarea|button|a)$/i.test(target.tagName) ||
+      !this.displayedItems || this.displayedItems.length === 0)
+      return true;
+
+    let row = this.displayedItems[this.focusedIndex];
+    switch (event.keyCode) {
+      case 38: // Up
+        if ((event.ctrlKey || event.metaKey) && this.hasRowHandle && row)
+          this.moveRow(row, this.displayedItems[this.focusedIndex - 1], 'before');
+        else
+          this.focusRow(this.focusedIndex - 1);
+        break;
+      case 40: // Down
+        if ((event.ctrlKey || event.metaKey) && this.hasRowHandle && row)
+          this.moveRow(row, this.displayedItems[this.focusedIndex + 1], 'after');
+        else
+          this.focusRow(this.focusedIndex + 1);
+        break;
+      case 37: // Left
+        this.focusedColumnIndex = Math.max(0, this.focusedColumnIndex - 1);
+        break;
+      case 39: // Right
+        this.focusedColumnIndex = Math.min(this.displayedColumns.length - 1, this.focusedColumnIndex + 1);
+        break;
+      case 33: // Page up
+        if (this.scrollMode === 'paging')
+          this.showPage(this.currentPage - 1).then(() => this.focusRow(Math.max(this.focusedIndex, 0)));
+        else
+          this.focusRow(this.focusedIndex - this.pageSize);
+        break;
+      case 34: // Page down
+        if (this.scrollMode === 'paging')
+          this.showPage(this.currentPage + 1).then(() => this.focusRow(Math.max(this.focusedIndex, 0)));
+        else
+          this.focusRow(this.focusedIndex + this.pageSize);
+        break;
+      case 36: // Home
+        if (this.scrollMode === 'virtual')
+          this.focusRow(-this.virtualSkip);
+        else
+          this.focusRow(0);
+        break;
+      case 35: // End
+        if (this.scrollMode === 'virtual')
+          this.focusRow(this.rowCount - 1 - this.virtualSkip);
+        else
+          this.focusRow(this.displayedItems.length - 1);
+        break;
+      case 32: // Space
+        if (row && this.isGroupRow(row))
+          this.toggleGroup(row);
+        else if (row)
+          this.selectRow(row);
+        break;
+      case 13: // Enter
+        if (row && this.isGroupRow(row))
+          this.toggleGroup(row);
+        else if (row)
+          this.dispatchRowActivatedEvent(row);
+        break;
+      case 67: // C
+        // Text selected by the user is copied by the browser
+        let selection = window.getSelection();
+        if (!(event.ctrlKey || event.metaKey) || (selection && !selection.isCollapsed))
+          return true;
+        this.copy();
+        break;
+      default:
+        return true;
+    }
+    return false;
+  }
+
+  /**
+   * Focuses the row at the given index of the displayed items; indexes outside of the displayed
+   * items move to the previous or next page (paging), window (virtual) or load more rows (infinite).
+   */
+  async focusRow(index: number) {
+    if (!this.displayedItems)
+      return;
+
+    let count = this.displayedItems.length;
+    if (index < 0) {
+      if (this.scrollMode === 'paging' && this.currentPage > 0) {
+        await this.showPage(this.currentPage - 1);
+        index = this.displayedItems.length - 1;
+      } else if (this.scrollMode === 'virtual' && this.virtualSkip > 0) {
+        let target = Math.max(0, this.virtualSkip + index);
+        await this.showItemAtIndex(target);
+        index = target - this.virtualSkip;
+      }
+    } else if (index >= count) {
+      if (this.scrollMode === 'paging' && this.currentPage < this.pageCount - 1) {
+        await this.showPage(this.currentPage + 1);
+        index = 0;
+      } else if (this.scrollMode === 'virtual' && this.virtualSkip + count < this.rowCount) {
+        let target = Math.min(this.rowCount - 1, this.virtualSkip + index);
+        await this.showItemAtIndex(target);
+        index = target - this.virtualSkip;
+      } else if (this.scrollMode === 'infinite' && !this.isEndOfData) {
+        await this.loadMore();
+      }
+    }
+
+    count = this.displayedItems ? this.displayedItems.length : 0;
+    this.focusedIndex = count > 0 ? Math.max(0, Math.min(index, count - 1)) : -1;
+    this.scrollToFocusedRow();
+  }
+
+  protected onRowClick(row: any, event: MouseEvent) {
+    if (this.displayedItems)
+      this.focusedIndex = this.displayedItems.indexOf(row);
+
+    let cell = event.target as Element | null;
+    while (cell && cell.parentElement !== event.currentTarget)
+      cell = cell.parentElement;
+
+    if (cell) {
+      let columnIndex = Array.prototype.indexOf.call((<Element>event.currentTarget).children, cell) - this.leadingCellCount;
+      if (columnIndex >= 0)
+        this.focusedColumnIndex = columnIndex;
+    }
+
+    // Clicks on the checkbox column toggle the row like Ctrl+click
+    if (cell && cell.classList.contains('bs-grid-row-checkbox'))
+      this.selectRow(row);
+    else
+      this.selectRow(row, event);
+  }
+
+  /** Keeps the focus on the same row index when the displayed items change (e.g. on another page). */
+  private updateFocusedIndex(offset: number) {
+    if (this.focusedIndex !== -1) {
+      let count = this.displayedItems ? this.displayedItems.length : 0;
+      this.focusedIndex = count > 0 ? Math.max(0, Math.min(this.focusedIndex + this.focusOffset - offset, count - 1)) : -1;
+    }
+
+    this.focusOffset = offset;
+    this.focusedColumnIndex = Math.max(0, Math.min(this.focusedColumnIndex, this.displayedColumns.length - 1));
+  }
+
+  private scrollToFocusedRow() {
+    setTimeout(() => {
+      let row = this.bodyElement ? this.bodyElement.querySelector('tr.bs-grid-focused') : null;
+      if (row && this.scrollElement) {
+        let rowRect = row.getBoundingClientRect();
+        let rect = this.scrollElement.getBoundingClientRect();
+        if (rowRect.top < rect.top)
+          this.scrollElement.scrollTop -= rect.top - rowRect.top;
+        else if (rowRect.bottom > rect.bottom)
+          this.scrollElement.scrollTop += rowRect.bottom - rect.bottom;
+      }
+    });
+  }
+
+  private dispatchRowActivatedEvent(row: any) {
+    let event = new CustomEvent('row-activated', {
+      detail: {
+        row: row,
+        column: this.displayedColumns[this.focusedColumnIndex]
+      }
+    });
+    this.element.dispatchEvent(event);
+  }
+
+  // Row reordering
+
+  protected onRowDragStart(row: any, event: DragEvent) {
+    this.draggedRow = row;
+    event.dataTransfer.effectAllowed = 'move';
+    event.dataTransfer.setData('text', '');
+
+    // Drag the whole row instead of the handle
+    let element = (<Element>event.target).parentElement;
+    if (element && typeof event.dataTransfer.setDragImage === 'function')
+      event.dataTransfer.setDragImage(element, 0, 0);
+    return true;
+  }
+
+  protected onRowDragOver(row: any, event: DragEvent) {
+    if (!this.draggedRow)
+      return true;
+
+    let rect = (<Element>event.currentTarget).getBoundingClientRect();
+    this.dropTargetRow = row;
+    this.dropPosition = event.clientY < rect.top + rect.height / 2 ? 'before' : 'after';
+    event.dataTransfer.dropEffect = 'move';
+    return false;
+  }
+
+  protected onRowDrop(row: any) {
+    if (this.draggedRow && this.draggedRow !== row)
+      this.moveRow(this.draggedRow, row, this.dropPosition);
+    this.onRowDragEnd();
+  }
+
+  protected onRowDragEnd() {
+    this.draggedRow = null;
+    this.dropTargetRow = null;
+    return true;
+  }
+
+  protected getDropClass(row: any, dropTargetRow: any, dropPosition: 'before' | 'after') {
+    return row === dropTargetRow && row !== this.draggedRow ? ' bs-grid-drop-' + dropPosition : '';
+  }
+
+  /**
+   * Moves the row before or after the target row (reorderable only). The cancelable row-reordered event is raised
+   * first; then local items are reordered in place, for loadData grids only the displayed rows are reordered.
+   */
+  async moveRow(row: any, targetRow: any, position: 'before' | 'after' = 'before') {
+    if (!this.hasRowHandle || !this.displayedItems || targetRow === undefined || row === targetRow)
+      return false;
+
+    // Local items are moved in the items array, otherwise the indexes refer to the filtered rows
+    let rows = this.items ? this.items : this.displayedItems;
+    let offset = this.items ? 0 : this.displayedItemsOffset;
+    let fromIndex = rows.indexOf(row);
+    let targetIndex = rows.indexOf(targetRow);
+    if (fromIndex === -1 || targetIndex === -1)
+      return false;
+
+    let toIndex = position === 'before' ? targetIndex : targetIndex + 1;
+    if (fromIndex < toIndex)
+      toIndex--;
+    if (fromIndex === toIndex || !this.dispatchRowReorderedEvent(row, fromIndex + offset, toIndex + offset))
+      return false;
+
+    rows.splice(fromIndex, 1);
+    rows.splice(toIndex, 0, row);
+    if (this.items)
+      await this.refreshInternal();
+    if (this.displayedItems)
+      this.focusedIndex = this.displayedItems.indexOf(row);
+    this.scrollToFocusedRow();
+    return true;
+  }
+
+  private dispatchRowReorderedEvent(item: any, fromIndex: number, toIndex: number) {
+    let event = new CustomEvent('row-reordered', {
+      detail: {
+        item: item,
+        fromIndex: fromIndex,
+        toIndex: toIndex
+      },
+      cancelable: true
+    });
+    return this.element.dispatchEvent(event);
+  }
+
+  // Row details
+
+  /** Expands or collapses the detail row of the given row (see bs-row-detail). */
+  toggleRowDetail(row: any, event?: Event) {
+    if (event)
+      event.stopPropagation();
+
+    return this.isRowExpanded(row, this.rowDetailStates) ? this.collapseRow(row) : this.expandRow(row);
+  }
+
+  /** Expands the detail row of the given row and loads its detail data with loadDetail. */
+  async expandRow(row: any) {
+    if (this.isRowExpanded(row, this.rowDetailStates))
+      return;
+
+    let state: BsGridRowDetailState = { row: row, detail: undefined, loading: !!this.loadDetail };
+    this.rowDetailStates = this.rowDetailStates.concat([state]);
+
+    if (this.loadDetail) {
+      try {
+        let promise = this.loadDetail(row);
+        state.detail = promise && (<any>promise).then ? await promise : promise;
+      } catch (error) {
+        // Collapse the row instead of showing an empty detail
+        this.rowDetailStates = this.rowDetailStates.filter(s => s !== state);
+        this.dispatchLoadErrorEvent(error, undefined, row);
+      } finally {
+        state.loading = false;
+      }
+    }
+  }
+
+  collapseRow(row: any) {
+    this.rowDetailStates = this.rowDetailStates.filter(state => !this.isSameRow(state.row, row));
+  }
+
+  collapseAllRows() {
+    this.rowDetailStates = [];
+  }
+
+  protected isRowExpanded(row: any, states: BsGridRowDetailState[]) {
+    return !this.isGroupRow(row) && states.some(state => this.isSameRow(state.row, row));
+  }
+
+  protected getRowDetailState(row: any, states: BsGridRowDetailState[]) {
+    return states.find(state => this.isSameRow(state.row, row));
+  }
+
+  /** Replaces the rows of the expanded states with the equal displayed rows (e.g. after they have been reloaded). */
+  private updateRowDetailStates() {
+    if (!this.displayedItems)
+      return;
+
+    for (let state of this.rowDetailStates) {
+      let row = this.displayedItems.find(item => !this.isGroupRow(item) && this.isSameRow(state.row, item));
+      if (row)
+        state.row = row;
+    }
+  }
+
+  private isSameRow(a: any, b: any) {
+    if (a === b)
+      return true;
+    if (!a || !b)
+      return false;
+    if (this.valuePath)
+      return this.getValue(a, this.valuePath) === this.getValue(b, this.valuePath);
+
+    return a.id !== undefined && a.id === b.id;
+  }
+
+  // Tree
+
+  /** Expands or collapses the child rows of the given row (tree mode). */
+  toggleTreeRow(row: any, event?: Event) {
+    if (event)
+      event.stopPropagation();
+
+    return this.getTreeState(row).expanded ? this.collapseTreeRow(row) : this.expandTreeRow(row);
+  }
+
+  /** Expands the given row and loads its children with loadChildren when they are not loaded yet. */
+  async expandTreeRow(row: any) {
+    let state = this.getTreeState(row);
+    if (state.expanded)
+      return;
+
+    if (!await this.loadTreeChildren(row))
+      return;
+    state.expanded = true;
+    await this.refreshInternal();
+  }
+
+  collapseTreeRow(row: any) {
+    this.getTreeState(row).expanded = false;
+    return this.refreshInternal();
+  }
+
+  /** Expands all rows with children; children which are not loaded yet are loaded with loadChildren. */
+  async expandAllTreeRows() {
+    let expand = async (rows: any[]) => {
+      for (let row of rows) {
+        if (this.hasTreeChildren(row, this.treeVersion) && await this.loadTreeChildren(row)) {
+          this.getTreeState(row).expanded = true;
+          await expand(this.getTreeChildren(row));
+        }
+      }
+    };
+
+    await expand(this.items ? this.items : (this.displayedItems || []).filter(row => this.getTreeLevel(row, this.treeVersion) === 0));
+    await this.refreshInternal();
+  }
+
+  collapseAllTreeRows() {
+    this.treeStates.forEach(state => state.expanded = false);
+    return this.refreshInternal();
+  }
+
+  protected getTreeLevel(row: any, treeVersion: number) {
+    let state = this.treeStates.get(this.getRowKey(row));
+    return state ? state.level : 0;
+  }
+
+  protected isTreeRowExpanded(row: any, treeVersion: number) {
+    let state = this.treeStates.get(this.getRowKey(row));
+    return !!state && state.expanded;
+  }
+
+  protected isTreeRowLoading(row: any, treeVersion: number) {
+    let state = this.treeStates.get(this.getRowKey(row));
+    return !!state && state.loading;
+  }
+
+  protected hasTreeChildren(row: any, treeVersion: number) {
+    let children = this.childrenPath ? this.getObjectValueFromPath(this.childrenPath, row) : undefined;
+    if (children)
+      return children.length > 0;
+
+    let state = this.treeStates.get(this.getRowKey(row));
+    if (state && state.children)
+      return state.children.length > 0;
+
+    if (!this.loadChildren)
+      return false;
+
+    return this.hasChildrenPath ? !!this.getObjectValueFromPath(this.hasChildrenPath, row) : true;
+  }
+
+  /** Loads the children of the row with loadChildren when needed; returns false when loading failed. */
+  private async loadTreeChildren(row: any) {
+    let state = this.getTreeState(row);
+    let children = this.childrenPath ? this.getObjectValueFromPath(this.childrenPath, row) : undefined;
+    if (children || state.children || !this.loadChildren)
+      return true;
+
+    state.loading = true;
+    this.treeVersion++;
+    try {
+      let promise = this.loadChildren(row);
+      state.children = (promise && (<any>promise).then ? await promise : <any[]>promise) || [];
+      return true;
+    } catch (error) {
+      this.dispatchLoadErrorEvent(error, undefined, row);
+      return false;
+    } finally {
+      state.loading = false;
+      this.treeVersion++;
+    }
+  }
+
+  private getTreeChildren(row: any): any[] {
+    let children = this.childrenPath ? this.getObjectValueFromPath(this.childrenPath, row) : undefined;
+    if (children)
+      return children;
+
+    let state = this.treeStates.get(this.getRowKey(row));
+    return state && state.children ? state.children : [];
+  }
+
+  private getTreeState(row: any) {
+    let key = this.getRowKey(row);
+    let state = this.treeStates.get(key);
+    if (!state) {
+      state = { level: 0, expanded: false, loading: false, children: undefined };
+      this.treeStates.set(key, state);
+    }
+    return state;
+  }
 
-    if (column === this.currentSortColumn)
-      this.currentSortOrder = this.currentSortOrder === 'asc' ? 'desc' : 'asc';
-    else {
-      this.currentSortColumn = column;
-      this.currentSortOrder = this.currentSortColumn.defaultSortOrder;
+  /**
+   * Flattens the rows and the children of the expanded rows, each level is sorted separately. When filtered, the
+   * rows matching the filter and their ancestors are kept; the ancestors are expanded when the filter changes
+   * and can be collapsed afterwards.
+   */
+  private flattenTree(rows: any[], level: number, filtered: boolean, sort = true): any[] {
+    let matches = filtered ? this.filterItemsByColumns(this.filterItems(rows)) : rows;
+    let result: any[] = [];
+    for (let row of sort ? this.sortItems(rows) : rows) {
+      let state = this.getTreeState(row);
+      state.level = level;
+
+      let isMatch = !filtered || matches.indexOf(row) !== -1;
+      let descendants = state.expanded || filtered ? this.flattenTree(this.getTreeChildren(row), level + 1, filtered) : [];
+      if (!isMatch && descendants.length === 0)
+        continue;
+      if (filtered && descendants.length > 0 && this.expandTreeMatches)
+        state.expanded = true;
+
+      result.push(row);
+      if (state.expanded)
+        result = result.concat(descendants);
     }
+    return result;
+  }
+
+  private isFiltered() {
+    return !!(this.filter && this.filter.trim()) || this.getColumnFilters().length > 0;
+  }
+
+  /** Gets the key which identifies a row across reloads (the valuePath value or id when available). */
+  private getRowKey(row: any) {
+    if (row && this.valuePath)
+      return this.getValue(row, this.valuePath);
+
+    return row && row.id !== undefined ? row.id : row;
+  }
+
+  // Grouping
 
+  isGroupRow(row: any) {
+    return row instanceof BsGridGroupRow;
+  }
+
+  /** Expands or collapses the given group. */
+  toggleGroup(group: BsGridGroupRow) {
+    this.groupToggles[group.id] = !group.expanded;
+    return this.refreshInternal();
+  }
+
+  expandAllGroups() {
+    this.groupsCollapsed = false;
+    this.groupToggles = {};
+    return this.refreshInternal();
+  }
+
+  collapseAllGroups() {
+    this.groupsCollapsed = true;
+    this.groupToggles = {};
     return this.refreshInternal();
   }
 
+  protected getGroupLabel(group: BsGridGroupRow) {
+    let column = this.findColumnByField(group.field);
+    return column ? this.getColumnHeaderText(column) : group.field;
+  }
+
+  private sortItemsByGroups(items: any[]) {
+    let fields = this.groupFields;
+    return items
+      .map((item, index) => ({ item, index }))
+      .sort((a, b) => {
+        let result = this.defaultCompare(
+          fields.map(field => this.getObjectValueFromPath(field, a.item)),
+          fields.map(field => this.getObjectValueFromPath(field, b.item)));
+        return result !== 0 ? result : a.index - b.index;
+      })
+      .map(entry => entry.item);
+  }
+
+  /** Inserts group header rows before each run of items with the same group key and removes the items of collapsed groups. */
+  private groupItems(items: any[], level = 0, parentId = ''): any[] {
+    let fields = this.groupFields;
+    if (level >= fields.length)
+      return items;
+
+    let groups: BsGridGroupRow[] = [];
+    for (let item of items) {
+      let key = this.getObjectValueFromPath(fields[level], item);
+      let group = groups.length > 0 ? groups[groups.length - 1] : null;
+      if (!group || !this.isSameGroupKey(group.key, key)) {
+        group = new BsGridGroupRow(parentId + '/' + String(key), fields[level], key, level);
+        group.expanded = this.groupToggles[group.id] !== undefined ? this.groupToggles[group.id] : !this.groupsCollapsed;
+        groups.push(group);
+      }
+      group.items.push(item);
+    }
+
+    let result: any[] = [];
+    for (let group of groups) {
+      group.aggregates = this.computeAggregates(group.items);
+      result.push(group);
+      if (group.expanded)
+        result = result.concat(this.groupItems(group.items, level + 1, group.id));
+    }
+    return result;
+  }
+
+  private isSameGroupKey(a: any, b: any) {
+    if (a === b)
+      return true;
+    if (a === undefined || a === null || b === undefined || b === null)
+      return false;
+    return a.valueOf() === b.valueOf();
+  }
+
+  // Aggregates
+
+  /** Gets the formatted aggregate of the given column. */
+  protected getAggregate(column: BsColumn, aggregates: { [key: string]: any }) {
+    let value = aggregates ? aggregates[this.getColumnKey(column)] : undefined;
+    if (value === undefined || value === null)
+      return '';
+
+    return typeof value === 'number' ? value.toLocaleString(BsGrid.LOCALE) : String(value);
+  }
+
+  /** Gets the aggregates of the displayed columns as text, used in group header rows. */
+  protected getGroupAggregateSummary(group: BsGridGroupRow) {
+    return this.displayedColumns
+      .filter(column => column.aggregate)
+      .map(column => this.getColumnHeaderText(column) + ': ' + this.getAggregate(column, group.aggregates))
+      .join(', ');
+  }
+
+  private computeAggregates(rows: any[]) {
+    let aggregates: { [key: string]: any } = {};
+    for (let column of this.columns) {
+      if (column.aggregate && column.field && column.field.length > 0)
+        aggregates[this.getColumnKey(column)] = this.computeAggregate(column.aggregate, column, rows);
+    }
+    return aggregates;
+  }
+
+  private computeAggregate(aggregate: BsColumnAggregate, column: BsColumn, rows: any[]) {
+    let values = rows.map(row => {
+      let fieldValues = column.field.map(field => this.getObjectValueFromPath(field, row));
+      return fieldValues.length === 1 ? fieldValues[0] : fieldValues;
+    });
+
+    if (typeof aggregate === 'function')
+      return aggregate.bind(this.parent)(values, rows);
+
+    if (aggregate === 'count')
+      return rows.length;
+
+    let nonEmptyValues = values.filter(value => value !== undefined && value !== null && value !== '');
+    if (aggregate === 'min' || aggregate === 'max') {
+      return nonEmptyValues.reduce((result, value) => {
+        if (result === undefined)
+          return value;
+        let comparison = this.defaultCompare([value], [result]);
+        return (aggregate === 'min' ? comparison < 0 : comparison > 0) ? value : result;
+      }, undefined);
+    }
+
+    let numbers = nonEmptyValues
+      .map(value => typeof value === 'number' ? value : parseFloat(value))
+      .filter(value => !isNaN(value));
+    let sum = numbers.reduce((result, value) => result + value, 0);
+    return aggregate === 'avg' ? (numbers.length > 0 ? sum / numbers.length : undefined) : sum;
+  }
+
   // Local row filtering and sorting
 
   private filterItems(items: any[]) {
-    let term = this.filter ? this.filter.toLowerCase().trim() : '';
-    let terms = term.split(' ');
-
-    return !term ? items : items.filter(row => {
-      return terms.every(t => {
-        return this.columns.some(column => {
-          if (!column.searchable) {
-            return false;
-          }
+    let query = this.currentQuery;
 
-          let values = column.field.map(veld => this.getObjectValueFromPath(veld, row));
-          if (column.matcher) {
-            return column.matcher.bind(this.parent)(t, values);
-          }
+    return query.groups.length === 0 ? items : items.filter(row => {
+      return query.groups.some(group => group.every(term => this.matchesQueryTerm(term, row) !== term.negated));
+    });
+  }
 
-          for (let i in values) {
-            let value = String(values[i]);
-            if (value.toLowerCase().indexOf(t) !== -1) {
-              return true;
-            }
-          }
+  private matchesQueryTerm(term: BsGridQueryTerm, row: any) {
+    let value = term.value.toLowerCase();
+    if (term.column)
+      return this.matchesColumnQueryTerm(term, term.column, row);
+
+    return this.columns.some(column => {
+      if (!column.searchable) {
+        return false;
+      }
 
+      let values = column.field.map(veld => this.getObjectValueFromPath(veld, row));
+      if (column.matcher) {
+        return column.matcher.bind(this.parent)(value, values);
+      }
+
+      return this.matchesColumnQueryTerm(term, column, row);
+    });
+  }
+
+  private matchesColumnQueryTerm(term: BsGridQueryTerm, column: BsColumn, row: any) {
+    let values = column.field.map(field => this.getObjectValueFromPath(field, row));
+    let value = term.value.toLowerCase();
+
+    if (term.operator !== 'contains' && term.operator !== 'equals') {
+      let typed = !!column.type && column.type !== 'string';
+      let bound = typed ? parseValue(term.value, column.type, column.format) : term.value;
+      let operator = term.operator;
+      if (bound === undefined)
+        return false;
+
+      // Date comparisons include the whole day of the entered date
+      if ((column.type === 'date' || column.type === 'moment') && (operator === '<=' || operator === '>')) {
+        let date = new Date(bound);
+        bound = new Date(date.getFullYear(), date.getMonth(), date.getDate() + 1).getTime();
+        operator = operator === '<=' ? '<' : '>=';
+      }
+
+      return values.some(v => {
+        let comparable = typed ? getComparableValue(v, column.type, column.format) : v;
+        if (comparable === undefined || comparable === null || comparable === '')
           return false;
-        });
+
+        let comparison: number;
+        if (typed || (!isNaN(parseFloat(comparable)) && !isNaN(parseFloat(bound))))
+          comparison = typed ? (comparable < bound ? -1 : comparable > bound ? 1 : 0) : parseFloat(comparable) - parseFloat(bound);
+        else
+          comparison = String(comparable).localeCompare(String(bound), BsGrid.LOCALE);
+
+        return operator === '<' ? comparison < 0 : operator === '<=' ? comparison <= 0 :
+          operator === '>' ? comparison > 0 : comparison >= 0;
       });
+    }
+
+    return values.some(v => {
+      if (v === undefined || v === null)
+        return false;
+
+      let texts = [String(v).toLowerCase()];
+      if (this.isFormattedColumn(column))
+        texts.push(this.formatCellValue(column, v).toLowerCase());
+      return texts.some(text => term.operator === 'equals' ? text === value : text.indexOf(value) !== -1);
     });
   }
 
-  private sortItems(items: any[]) {
-    let orderMultiplier = this.currentSortOrder === 'asc' ? 1 : -1;
-    if (this.currentSortColumn && this.currentSortColumn.sorter) {
-      return items.slice().sort((a: any, b: any) => {
-        return this.currentSortColumn!.sorter(a, b) * orderMultiplier;
-      });
-    } else if (this.currentSortColumn) {
-      let fields = this.currentSortColumn!.field;
-      return items.slice().sort((aRow: any, bRow: any) => {
-        let aValues = fields.map(field => this.getObjectValueFromPath(field, aRow));
-        let bValues = fields.map(field => this.getObjectValueFromPath(field, bRow));
-        return this.defaultCompare(aValues, bValues) * orderMultiplier;
+  private filterItemsByColumns(items: any[]) {
+    let filters = this.getColumnFilters();
+    return filters.length === 0 ? items : items.filter(row => {
+      return filters.every(filter => {
+        let values = filter.column.field.map(field => this.getObjectValueFromPath(field, row));
+        return values.some(value => this.matchesColumnFilter(filter, value));
       });
-    } else
+    });
+  }
+
+  private matchesColumnFilter(filter: BsGridColumnFilter, value: any) {
+    if (filter.operator === 'range') {
+      let comparable = filter.type === 'date' ? this.toDate(value) : value;
+      if (comparable === undefined || comparable === null || comparable === '')
+        return false;
+
+      if (filter.type === 'date') {
+        let time = comparable.getTime();
+        let to = filter.to ? new Date(filter.to.getFullYear(), filter.to.getMonth(), filter.to.getDate() + 1) : undefined;
+        return (!filter.from || time >= filter.from.getTime()) && (!to || time < to.getTime());
+      }
+
+      let numeric = typeof comparable === 'number' ? comparable : parseFloat(comparable);
+      return !isNaN(numeric) &&
+        (filter.from === undefined || numeric >= filter.from) &&
+        (filter.to === undefined || numeric <= filter.to);
+    }
+
+    if (filter.type === 'boolean')
+      return !!value === filter.value;
+
+    if (value === undefined || value === null)
+      return false;
+
+    let term = String(filter.value).toLowerCase();
+    let texts = [String(value).toLowerCase()];
+    if (this.isFormattedColumn(filter.column))
+      texts.push(this.formatCellValue(filter.column, value).toLowerCase());
+    return texts.some(text => filter.operator === 'contains' ? text.indexOf(term) !== -1 : text === term);
+  }
+
+  private toDate(value: any): Date | undefined {
+    if (value === undefined || value === null || value === '')
+      return undefined;
+    if (value instanceof Date)
+      return value;
+    if (typeof value.toDate === 'function')
+      return value.toDate();
+
+    let date = new Date(value);
+    return isNaN(date.getTime()) ? undefined : date;
+  }
+
+  private sortItems(items: any[]) {
+    let sortColumns = this.currentSortColumns;
+    if (sortColumns.length === 0 || this.reorderable)
       return items;
+
+    // Array.sort is not guaranteed to be stable: fall back to the original index for equal rows
+    return items
+      .map((item, index) => ({ item, index }))
+      .sort((a, b) => {
+        for (let sortColumn of sortColumns) {
+          let result = this.compareRows(sortColumn.column, a.item, b.item, sortColumn.order);
+          if (result !== 0)
+            return result;
+        }
+        return a.index - b.index;
+      })
+      .map(entry => entry.item);
+  }
+
+  private compareRows(column: BsColumn, aRow: any, bRow: any, order: 'asc' | 'desc') {
+    let direction = order === 'asc' ? 1 : -1;
+    if (column.sorter)
+      return direction * column.sorter(aRow, bRow);
+
+    let aValues = column.field.map(field => this.getObjectValueFromPath(field, aRow));
+    let bValues = column.field.map(field => this.getObjectValueFromPath(field, bRow));
+    if (!column.type || column.type === 'string')
+      return direction * this.defaultCompare(aValues, bValues);
+
+    // Typed columns are compared by value with empty (or invalid) values last in both directions
+    for (let i in aValues) {
+      let aValue = getComparableValue(aValues[i], column.type, column.format);
+      let bValue = getComparableValue(bValues[i], column.type, column.format);
+      if (aValue === undefined && bValue === undefined)
+        continue;
+      else if (aValue === undefined)
+        return 1;
+      else if (bValue === undefined)
+        return -1;
+
+      if (typeof aValue === 'string') {
+        let comp = aValue.localeCompare(bValue, BsGrid.LOCALE);
+        if (comp !== 0)
+          return direction * comp;
+      } else if (aValue !== bValue)
+        return direction * (aValue < bValue ? -1 : 1);
+    }
+
+    return 0;
+  }
+
+  /**
+   * Formats a value of the column for display according to its type and format (see BsColumn.type).
+   */
+  formatCellValue(column: BsColumn, value: any) {
+    return formatValue(value, column.type, column.format, BsGrid.LOCALE);
+  }
+
+  /** Gets the (formatted) value of the column as HTML with the matches of the filter marked (see highlightMatches). */
+  highlightCellValue(column: BsColumn, value: any, field: string, query: BsGridQuery) {
+    return highlightText(this.isFormattedColumn(column) ? this.formatCellValue(column, value) : value, query, field);
+  }
+
+  private isFormattedColumn(column: BsColumn) {
+    return (!!column.type && column.type !== 'string') || !!column.format;
   }
 
   private defaultCompare(aValues: any[], bValues: any[]) {
     for (let i in aValues) {
-      if (aValues[i] === undefined && bValues[i] !== undefined)
+      let aEmpty = aValues[i] === undefined || aValues[i] === null;
+      let bEmpty = bValues[i] === undefined || bValues[i] === null;
+      if (aEmpty && bEmpty)
+        continue;
+      else if (aEmpty)
         return -1;
-      else if (bValues[i] === undefined && aValues[i] !== undefined)
+      else if (bEmpty)
         return 1;
 
       if (typeof aValues[i] === 'string') {
@@ -500,6 +2515,16 @@ export class BsGrid extends BsResizeContainer {
     return 0;
   }
 
+  private setObjectValueFromPath(field: string, obj: any, value: any) {
+    let parts = field.split('.');
+    let target = obj;
+    for (let part of parts.slice(0, -1)) {
+      target = target ? target[part] : undefined;
+    }
+    if (target)
+      target[parts[parts.length - 1]] = value;
+  }
+
   private getObjectValueFromPath(field: string, obj: any) {
     let result: any = obj;
     let parts = field.split('.');
@@ -513,6 +2538,9 @@ export class BsGrid extends BsResizeContainer {
 
   public rendered = false;
 
+  public scrollElement: HTMLElement;
+  public headerScrollElement: HTMLElement;
+
   public bodyElement: HTMLElement;
   private body = {
     scrollListener: <any>null,
@@ -526,13 +2554,17 @@ export class BsGrid extends BsResizeContainer {
     viewSlot: <ViewSlot | null>null,
   };
 
+  private filterRow = {
+    viewSlot: <ViewSlot | null>null,
+  };
+
   public footerElement: HTMLElement;
   private footer = {
     viewSlot: <ViewSlot | null>null,
   };
 
   protected getResizedChild() {
-    return this.element.children[0].children[1] as HTMLElement;
+    return this.scrollElement || this.element.children[0].children[1] as HTMLElement;
   }
 
   protected getContainerHeight(child: HTMLElement) {
@@ -569,18 +2601,48 @@ export class BsGrid extends BsResizeContainer {
     }
   }
 
-  private processColumnsCallback = () => this.processColumns();
-  private processColumns() {
+  private processColumnsCallback = () => {
+    if (!this.restoringState)
+      this.processColumns();
+  }
+
+  private getColumns() {
     let columns = this.columns;
     if (!columns || columns.length === 0) {
       columns = [];
       for (let i = 0; i < this.element.children.length; i++) {
         let e: any = this.element.children[i];
-        if (e.au && e.au.controller && e.au.controller.viewModel) {
+        if (e.au && e.au.controller && e.au.controller.viewModel instanceof BsColumn) {
           columns.push(e.au.controller.viewModel);
         }
       }
     }
+    return columns;
+  }
+
+  private getRowDetail(): BsRowDetail | undefined {
+    if (this.rowDetails && this.rowDetails.length > 0)
+      return this.rowDetails[0];
+
+    for (let i = 0; i < this.element.children.length; i++) {
+      let e: any = this.element.children[i];
+      if (e.au && e.au.controller && e.au.controller.viewModel instanceof BsRowDetail)
+        return e.au.controller.viewModel;
+    }
+    return undefined;
+  }
+
+  private processColumns() {
+    let columns = this.getColumns();
+    if (!this.stateRestored && columns.length > 0) {
+      this.stateRestored = true;
+      let state = this.stateKey && this.stateStorage ? this.stateStorage.load(this.stateKey) : null;
+      if (state)
+        this.applyState(state, columns);
+    }
+
+    // Field terms of the filter are resolved with the columns
+    this.currentQuery = this.getQuery();
 
     if (columns) {
       if (columns.length > 0 &&
@@ -589,12 +2651,50 @@ export class BsGrid extends BsResizeContainer {
         columns[0].rowHeader = true;
       }
 
-      this.compileRowTemplate(columns);
-      this.compileHeaderTemplate(columns);
+      // Keep the user defined order and append new columns in their declared order
+      let allColumns = columns;
+      this.orderedColumns = this.orderedColumns
+        .filter(column => allColumns.indexOf(column) !== -1)
+        .concat(allColumns.filter(column => this.orderedColumns.indexOf(column) === -1));
+
+      // Pinned columns are displayed at the left and right side
+      let visibleColumns = this.orderedColumns.filter(column => column.visible !== false);
+      let displayedColumns = visibleColumns.filter(column => column.pinned === 'left')
+        .concat(visibleColumns.filter(column => column.pinned !== 'left' && column.pinned !== 'right'))
+        .concat(visibleColumns.filter(column => column.pinned === 'right'));
+      this.displayedColumns = displayedColumns;
+
+      let rowDetail = this.getRowDetail();
+      this.hasRowExpander = !!rowDetail && rowDetail.showExpander;
+      this.hasCheckboxColumn = this.showCheckboxColumn && this.selectionMode === SelectionMode.multiple;
+      this.hasRowHandle = this.reorderable && this.groupFields.length === 0 && !this.isTreeGrid;
+      this.leadingCellCount = (this.hasCheckboxColumn ? 1 : 0) + (this.hasRowExpander ? 1 : 0) + (this.hasRowHandle ? 1 : 0);
+      this.updateColumnLayout();
+      if (rowDetail) {
+        rowDetail.element.removeEventListener('update', this.processColumnsCallback);
+        rowDetail.element.addEventListener('update', this.processColumnsCallback);
+      }
+
+      this.columnFilterStates = this.orderedColumns.map(column =>
+        this.columnFilterStates.find(s => s.column === column) ||
+        { column: column, operator: <'contains' | 'equals'>'contains', value: '', from: '', to: '' });
 
-      this.showFooter = columns.some(column => column.footer !== undefined && column.footer.trim().length > 0);
+      this.compileRowTemplate(displayedColumns, rowDetail);
+      this.compileHeaderTemplate(displayedColumns);
+
+      this.showFilterRow = displayedColumns.some(column => column.filterable);
+      if (this.showFilterRow) {
+        this.compileFilterRowTemplate(displayedColumns);
+      } else if (this.filterRow.viewSlot) {
+        this.filterRow.viewSlot.removeAll();
+      }
+
+      this.showFooter = displayedColumns.some(column =>
+        (column.footer !== undefined && column.footer.trim().length > 0) || !!column.aggregate);
       if (this.showFooter) {
-        this.compileFooterTemplate(columns);
+        this.compileFooterTemplate(displayedColumns);
+      } else if (this.footer.viewSlot) {
+        this.footer.viewSlot.removeAll();
       }
 
       columns.forEach(c => {
@@ -602,62 +2702,362 @@ export class BsGrid extends BsResizeContainer {
         c.element.addEventListener('update', this.processColumnsCallback);
       });
 
-      if (columns.length > 0)
+      if (columns.length > 0) {
         this.initializeDefaultSortOrder();
+        this.saveState();
+      }
     }
   }
 
-  private initializeDefaultSortOrder() {
-    if (!this.currentSortColumn) {
-      if (this.defaultSortColumn)
-        this.currentSortColumn = this.columns.find(column => column.field && column.field.indexOf(this.defaultSortColumn) !== -1);
-      else
-        this.currentSortColumn = this.columns.find(column => column.sortable);
+  // Grid state
+
+  /** Gets the current state (page, sort order, filter, columns and selection), e.g. to implement saved views. */
+  getState(): BsGridState {
+    return {
+      currentIndex: this.currentIndex,
+      sort: this.currentSortColumns.map(s => ({ key: this.getColumnKey(s.column), order: s.order })),
+      filter: this.filter,
+      columns: this.orderedColumns.map(column => ({
+        key: this.getColumnKey(column),
+        width: column.width,
+        visible: column.visible !== false
+      })),
+      value: this.value,
+      values: this.values
+    };
+  }
+
+  /** Applies the given state and refreshes the grid. */
+  async setState(state: BsGridState) {
+    this.applyState(state, this.getColumns());
+    this.processColumns();
+    await this.refreshInternal();
+  }
+
+  private applyState(state: BsGridState, columns: BsColumn[]) {
+    let findColumn = (key: string) => columns.find(column => this.getColumnKey(column) === key);
+
+    this.restoringState = true;
+    try {
+      if (state.columns) {
+        let orderedColumns: BsColumn[] = [];
+        for (let columnState of state.columns) {
+          let column = findColumn(columnState.key);
+          if (column && orderedColumns.indexOf(column) === -1) {
+            column.width = columnState.width;
+            column.visible = columnState.visible;
+            orderedColumns.push(column);
+          }
+        }
+        this.orderedColumns = orderedColumns;
+      }
+
+      if (state.sort) {
+        let sortColumns: BsGridSortColumn[] = [];
+        for (let sort of state.sort) {
+          let column = findColumn(sort.key);
+          if (column && column.sortable)
+            sortColumns.push({ column: column, order: sort.order });
+        }
+        this.currentSortColumns = sortColumns;
+      }
+
+      this.filter = state.filter || '';
+      this.currentIndex = state.currentIndex || 0;
+
+      if (state.value !== undefined)
+        this.value = state.value;
+      if (state.values)
+        this.values = state.values;
+    } finally {
+      this.restoringState = false;
+    }
+  }
+
+  private saveState() {
+    if (this.stateKey && this.stateStorage && this.stateRestored && !this.restoringState)
+      this.stateStorage.save(this.stateKey, this.getState());
+  }
 
-      if (this.currentSortColumn) {
-        this.currentSortOrder = this.defaultSortOrder ?
-          this.defaultSortOrder :
-          this.currentSortColumn.defaultSortOrder;
+  private getColumnKey(column: BsColumn) {
+    return column.field && column.field.length > 0 ? column.field.join(' ') : this.getColumnHeaderText(column);
+  }
+
+  private initializeDefaultSortOrder() {
+    if (this.currentSortColumns.length === 0) {
+      if (this.defaultSort) {
+        this.currentSortColumns = this.parseDefaultSort(this.defaultSort);
+      } else {
+        let column = this.defaultSortColumn ?
+          this.findColumnByField(this.defaultSortColumn) :
+          this.columns.find(c => c.sortable);
+
+        if (column) {
+          this.currentSortColumns = [{
+            column: column,
+            order: this.defaultSortOrder ? this.defaultSortOrder : column.defaultSortOrder
+          }];
+        }
       }
     }
   }
 
-  protected selectRow(row: any) {
-    if (this.enabled) {
+  private parseDefaultSort(defaultSort: string | { field: string, order?: 'asc' | 'desc' }[]) {
+    let entries = typeof defaultSort === 'string' ?
+      defaultSort.split(',').map(part => {
+        let tokens = part.trim().split(/\s+/);
+        return { field: tokens[0], order: <'asc' | 'desc' | undefined>(tokens[1] ? tokens[1].toLowerCase() : undefined) };
+      }) : defaultSort;
+
+    let sortColumns: BsGridSortColumn[] = [];
+    for (let entry of entries) {
+      let column = entry.field ? this.findColumnByField(entry.field) : undefined;
+      if (column && !sortColumns.some(s => s.column === column))
+        sortColumns.push({ column: column, order: entry.order ? entry.order : column.defaultSortOrder });
+    }
+    return sortColumns;
+  }
+
+  private findColumnByField(field: string) {
+    return this.columns.find(column => column.field && column.field.indexOf(field) !== -1);
+  }
+
+  /**
+   * Selects the given row: in multiple selection mode a plain click replaces the selection, Ctrl/Cmd+click toggles the row
+   * and Shift+click selects the range from the last clicked row (also across pages); without event the row is toggled.
+   */
+  protected selectRow(row: any, event?: MouseEvent) {
+    if (this.enabled && row !== this.editingRow) {
+      let index = this.displayedItems ? this.displayedItems.indexOf(row) : -1;
+      let absoluteIndex = index !== -1 ? this.displayedItemsOffset + index : -1;
+
+      if (this.selectionMode === SelectionMode.multiple && event && (event.shiftKey || !(event.ctrlKey || event.metaKey))) {
+        if (event.shiftKey && this.selectionAnchorIndex !== -1 && absoluteIndex !== -1) {
+          this.selectRange(this.selectionAnchorIndex, absoluteIndex, event.ctrlKey || event.metaKey);
+        } else {
+          this.selectionAnchorIndex = absoluteIndex;
+          this.selectionDescriptor = null;
+          this.setSelectedValues([this.valuePath ? this.getValue(row, this.valuePath) : row]);
+        }
+        return;
+      }
+
+      this.selectionAnchorIndex = absoluteIndex;
+
       if (this.selectionMode === SelectionMode.single) {
+        let oldValue = this.value;
         let value = this.comparer(this.value, row) ? undefined : row;
         this.value = this.valuePath ? this.getValue(value, this.valuePath) : value;
-        this.dispatchSelectionChangedEvent();
+        this.dispatchSelectionChangedEvent(
+          this.value !== undefined ? [this.value] : [],
+          oldValue !== undefined && oldValue !== null ? [oldValue] : []);
       } else if (this.selectionMode === SelectionMode.multiple) {
-        let values = this.values && this.values.filter(a => this.comparer(a, row)).length > 0 ?
-          this.values.filter(i => !this.comparer(i, row)) :
-          (this.values ? this.values.slice().concat([row]) : [row]);
+        let value = this.valuePath ? this.getValue(row, this.valuePath) : row;
+        if (this.selectionDescriptor) {
+          let excludedItems = this.selectionDescriptor.excludedItems;
+          let excluded = excludedItems.some(a => this.comparer(a, row));
+          this.setSelectionDescriptor(excluded ?
+            excludedItems.filter(a => !this.comparer(a, row)) :
+            excludedItems.concat([value]));
+          this.dispatchSelectionChangedEvent(excluded ? [value] : [], excluded ? [] : [value]);
+        } else {
+          let values = this.values || [];
+          this.setSelectedValues(values.some(a => this.comparer(a, row)) ?
+            values.filter(a => !this.comparer(a, row)) :
+            values.concat([value]));
+        }
+      }
+    }
+  }
+
+  /**
+   * Selects the rows between the given indexes of the filtered items (inclusive), the rows outside of the
+   * displayed items are loaded; when additive is false the range replaces the current selection.
+   */
+  async selectRange(fromIndex: number, toIndex: number, additive = false) {
+    let rows = await this.getRowsInRange(Math.min(fromIndex, toIndex), Math.max(fromIndex, toIndex));
+    let values = rows.map(row => this.valuePath ? this.getValue(row, this.valuePath) : row);
+
+    if (additive && this.selectionDescriptor) {
+      let removed = this.selectionDescriptor.excludedItems.filter(a => rows.some(row => this.comparer(a, row)));
+      this.setSelectionDescriptor(this.selectionDescriptor.excludedItems.filter(a => removed.indexOf(a) === -1));
+      this.dispatchSelectionChangedEvent(removed, []);
+    } else if (additive) {
+      let selectedValues = this.values || [];
+      this.setSelectedValues(selectedValues.concat(values.filter(v => !selectedValues.some(a => this.isSameValue(a, v)))));
+    } else {
+      this.selectionDescriptor = null;
+      this.setSelectedValues(values);
+    }
+  }
 
-        this.values = this.valuePath ? values.map(v => this.getValue(v, this.valuePath!)) : values;
-        this.value = this.values && this.values.length === 1 ? this.values[0] : undefined;
+  private async getRowsInRange(start: number, end: number) {
+    let displayedItems = this.displayedItems || [];
+    let offset = this.displayedItemsOffset;
 
-        this.dispatchSelectionChangedEvent();
-      }
+    let rows: any[];
+    if (start >= offset && end < offset + displayedItems.length) {
+      rows = displayedItems.slice(start - offset, end - offset + 1);
+    } else {
+      let request = Object.assign({}, this.getCurrentGridDataRequest(), { skip: start, take: end - start + 1 });
+      let result = this.items ? await this.loadDataFromItems(request) : await this.loadData!(request);
+      rows = result.items || [];
+    }
+    return rows.filter(row => !this.isGroupRow(row));
+  }
+
+  /** Selects all rows of the current page (selectionMode multiple only). */
+  selectAllOnPage() {
+    let rows = this.getSelectableRows();
+    if (this.selectionDescriptor) {
+      let removed = this.selectionDescriptor.excludedItems.filter(a => rows.some(row => this.comparer(a, row)));
+      this.setSelectionDescriptor(this.selectionDescriptor.excludedItems.filter(a => removed.indexOf(a) === -1));
+      this.dispatchSelectionChangedEvent(removed, []);
+    } else {
+      let values = this.values || [];
+      this.setSelectedValues(values.concat(rows
+        .filter(row => !values.some(a => this.comparer(a, row)))
+        .map(row => this.valuePath ? this.getValue(row, this.valuePath) : row)));
+    }
+  }
+
+  /** Deselects all rows of the current page. */
+  deselectAllOnPage() {
+    let rows = this.getSelectableRows();
+    if (this.selectionDescriptor) {
+      let excludedItems = this.selectionDescriptor.excludedItems;
+      let added = rows
+        .filter(row => !excludedItems.some(a => this.comparer(a, row)))
+        .map(row => this.valuePath ? this.getValue(row, this.valuePath) : row);
+      this.setSelectionDescriptor(excludedItems.concat(added));
+      this.dispatchSelectionChangedEvent([], added);
+    } else {
+      this.setSelectedValues((this.values || []).filter(a => !rows.some(row => this.comparer(a, row))));
+    }
+  }
+
+  /**
+   * Selects all rows matching the current filter: the values of local items grids contain all filtered rows,
+   * for loadData grids the selectionDescriptor is set instead (the rows are not loaded).
+   */
+  selectAll() {
+    if (this.items) {
+      let rows = this.actualItems ? this.actualItems : [];
+      this.setSelectedValues(rows.map(row => this.valuePath ? this.getValue(row, this.valuePath) : row));
+    } else {
+      let removed = this.values || [];
+      this.values = [];
+      this.value = undefined;
+      this.selectionDescriptor = {
+        filter: this.filter,
+        columnFilters: this.getColumnFilters(),
+        excludedItems: [],
+        count: this.filteredCount
+      };
+      this.dispatchSelectionChangedEvent([], removed);
+    }
+  }
+
+  /** Deselects all rows. */
+  clearSelection() {
+    this.selectionDescriptor = null;
+    this.setSelectedValues([]);
+  }
+
+  protected toggleSelectAllOnPage() {
+    if (!this.enabled)
+      return;
+
+    if (this.getPageSelectionState(this.value, this.values, this.selectionDescriptor, this.displayedItems) === 'all')
+      this.deselectAllOnPage();
+    else
+      this.selectAllOnPage();
+  }
+
+  protected getPageSelectionState(value: any, values: any[], selectionDescriptor: BsGridSelectionDescriptor | null, displayedItems: any[] | undefined) {
+    let rows = displayedItems ? displayedItems.filter(row => !this.isGroupRow(row)) : [];
+    let selectedCount = rows.filter(row => this.isSelected(value, values, row, selectionDescriptor)).length;
+    return selectedCount === 0 ? 'none' : (selectedCount === rows.length ? 'all' : 'some');
+  }
+
+  /** Gets 'page' when all rows of the page and 'all' when all rows matching the filter are selected (when there are more rows than on the page). */
+  @computedFrom('value', 'values', 'selectionDescriptor', 'displayedItems', 'filteredCount')
+  get selectAllState(): 'none' | 'page' | 'all' {
+    let rows = this.getSelectableRows();
+    if (rows.length === 0 || this.filteredCount <= rows.length)
+      return 'none';
+
+    if (this.selectionDescriptor)
+      return 'all';
+
+    if (this.getPageSelectionState(this.value, this.values, this.selectionDescriptor, this.displayedItems) !== 'all')
+      return 'none';
+
+    let values = this.values || [];
+    return this.items && this.actualItems && values.length >= this.actualItems.length &&
+      this.actualItems.every(row => values.some(a => this.comparer(a, row))) ? 'all' : 'page';
+  }
+
+  private getSelectableRows() {
+    return this.displayedItems ? this.displayedItems.filter(row => !this.isGroupRow(row)) : [];
+  }
+
+  private setSelectedValues(values: any[]) {
+    let oldValues = this.values || [];
+    let added = values.filter(v => !oldValues.some(o => this.isSameValue(o, v)));
+    let removed = oldValues.filter(o => !values.some(v => this.isSameValue(o, v)));
+
+    this.values = values;
+    this.value = values.length === 1 ? values[0] : undefined;
+    this.dispatchSelectionChangedEvent(added, removed);
+  }
+
+  private setSelectionDescriptor(excludedItems: any[]) {
+    let descriptor = this.selectionDescriptor!;
+    this.selectionDescriptor = {
+      filter: descriptor.filter,
+      columnFilters: descriptor.columnFilters,
+      excludedItems: excludedItems,
+      count: descriptor.count + descriptor.excludedItems.length - excludedItems.length
+    };
+  }
+
+  /** Resets the selection descriptor because it does not match the changed filter anymore. */
+  private clearSelectionDescriptor() {
+    if (this.selectionDescriptor) {
+      this.selectionDescriptor = null;
+      this.dispatchSelectionChangedEvent([], []);
     }
   }
 
-  private dispatchSelectionChangedEvent() {
+  private isSameValue(a: any, b: any) {
+    return this.valuePath ? a === b : this.comparer(a, b);
+  }
+
+  private dispatchSelectionChangedEvent(addedItems: any[], removedItems: any[]) {
+    this.saveState();
     setTimeout(() => {
       let event = new CustomEvent('selection-changed', {
         detail: {
           selectedItem: this.value,
           selectedItems: this.values,
+          addedItems: addedItems,
+          removedItems: removedItems,
+          selectionDescriptor: this.selectionDescriptor
         }
       });
       this.element.dispatchEvent(event);
     });
   }
 
-  protected isSelected(selectedItem: any, selectedItems: any[], item: any) {
+  protected isSelected(selectedItem: any, selectedItems: any[], item: any, selectionDescriptor?: BsGridSelectionDescriptor | null) {
+    if (selectionDescriptor)
+      return !this.isGroupRow(item) && !selectionDescriptor.excludedItems.some(a => this.comparer(a, item));
+
     return selectedItems && (this.comparer(selectedItem, item) || selectedItems.filter(a => this.comparer(a, item)).length > 0);
   }
 
-  private compileRowTemplate(columns: BsColumn[]) {
+  private compileRowTemplate(columns: BsColumn[], rowDetail: BsRowDetail | undefined) {
     if (this.body.viewSlot) {
       let rowClass = this.element.getAttribute('row-class.bind');
       if (!rowClass) rowClass = this.element.getAttribute('row-class.one-way');
@@ -665,14 +3065,81 @@ export class BsGrid extends BsResizeContainer {
 
       let row = document.createElement('tr');
       row.setAttribute('repeat.for', 'row of displayedItems');
-      row.setAttribute('click.trigger', 'selectRow(row)');
-      row.setAttribute('style.bind', `selectionMode !== 'none' ? (enabled ? 'cursor: pointer' : 'cursor: not-allowed') : ''`);
-      row.setAttribute('class.bind', `isSelected(value, values, row) ? ('selected ' + (` + rowClass + `)) : (` + rowClass + `)`);
+      row.setAttribute('click.trigger', 'onRowClick(row, $event)');
+      row.setAttribute('style.bind', `(selectionMode !== 'none' ? (enabled ? 'cursor: pointer;' : 'cursor: not-allowed;') : '') + ` +
+        `(scrollMode === 'virtual' ? 'height: ' + itemHeight + 'px;' : '')`);
+      row.setAttribute('class.bind', `(isSelected(value, values, row, selectionDescriptor) ? ('selected ' + (` + rowClass + `)) : (` + rowClass + `)) + ` +
+        `($index === focusedIndex ? ' bs-grid-focused' : '') + getDropClass(row, dropTargetRow, dropPosition)`);
+      if (this.hasRowHandle) {
+        row.setAttribute('dragover.trigger', 'onRowDragOver(row, $event)');
+        row.setAttribute('drop.trigger', 'onRowDrop(row)');
+      }
+
+      let grouped = this.groupFields.length > 0;
+      let wrapper: ((row: HTMLElement) => Node) | undefined = undefined;
+      if (grouped || rowDetail) {
+        row.removeAttribute('repeat.for');
+        if (grouped)
+          row.setAttribute('if.bind', '!isGroupRow(row)');
+
+        wrapper = (dataRow: HTMLElement) => {
+          let template = document.createElement('template');
+          template.setAttribute('repeat.for', 'row of displayedItems');
+          template.innerHTML = (grouped ? `<tr if.bind="isGroupRow(row)" class="bs-grid-group-row \${$index === focusedIndex ? 'bs-grid-focused' : ''}" click.trigger="toggleGroup(row)" style="cursor: pointer">
+              <td colspan.bind="displayedColumns.length + leadingCellCount" style.bind="'padding-left: ' + (8 + row.level * 20) + 'px'">
+                <i class="glyphicon \${row.expanded ? 'glyphicon-chevron-down' : 'glyphicon-chevron-right'}"></i>
+                \${getGroupLabel(row)}: <strong>\${row.key}</strong> (\${row.count})
+                <span class="bs-grid-group-aggregates">\${getGroupAggregateSummary(row)}</span>
+              </td>
+            </tr>` : '') + dataRow.outerHTML + (rowDetail ? `<tr if.bind="isRowExpanded(row, rowDetailStates)" class="bs-grid-row-detail">
+              <td colspan.bind="displayedColumns.length + leadingCellCount" with.bind="getRowDetailState(row, rowDetailStates)">
+                <template if.bind="loading">\${translations.loadingDetail}</template>
+                <template if.bind="!loading">${rowDetail.template}</template>
+              </td>
+            </tr>` : '');
+          return template;
+        };
+      }
+
+      let leadingCells = (this.hasCheckboxColumn ?
+        `<td class="bs-grid-row-checkbox ${this.getLeadingCellClass()}" style="${this.getLeadingCellStyle(0)}">
+           <input type="checkbox" tabindex="-1" checked.one-way="isSelected(value, values, row, selectionDescriptor)">
+         </td>` : '') + (this.hasRowExpander ?
+        `<td class="bs-grid-row-expander ${this.getLeadingCellClass()}" style="${this.getLeadingCellStyle(this.hasCheckboxColumn ? 1 : 0)}"
+             click.trigger="toggleRowDetail(row, $event)">
+           <i class="glyphicon \${isRowExpanded(row, rowDetailStates) ? 'glyphicon-chevron-down' : 'glyphicon-chevron-right'}"></i>
+         </td>` : '') + (this.hasRowHandle ?
+        `<td class="bs-grid-row-handle ${this.getLeadingCellClass()}" style="${this.getLeadingCellStyle(this.leadingCellCount - 1)}"
+             draggable="true" dragstart.trigger="onRowDragStart(row, $event)" dragend.trigger="onRowDragEnd()">
+           <i class="glyphicon glyphicon-menu-hamburger"></i>
+         </td>` : '');
 
       let view = this.columnsToView(columns, (column: BsColumn, index: number) => {
         const el = column.rowHeader ? 'th' : 'td';
-        return `<${el} class.bind="columns[${index}].cellClass" style.bind="(columns[${index}].width ? 'width: ' + columns[${index}].width + 'px;' : '')">${column.cellTemplate}</${el}>`;
-      }, row);
+        let cellTemplate = column.cellTemplate;
+        if (column.hasDefaultCellTemplate && this.highlightMatches)
+          cellTemplate = column.field.map(field =>
+            `<span field="${field}" innerhtml.bind="highlightCellValue(displayedColumns[${index}], row.${field}, '${field}', currentQuery)"></span>`).join('');
+        else if (column.hasDefaultCellTemplate && this.isFormattedColumn(column))
+          cellTemplate = column.field.map(field => `<span field="${field}">\${formatCellValue(displayedColumns[${index}], row.${field})}</span>`).join('');
+        let content = cellTemplate;
+        let treeToggle = index === 0 && this.isTreeGrid ?
+          `<span class="bs-grid-tree-toggle" style.bind="'margin-left: ' + getTreeLevel(row, treeVersion) * 20 + 'px'"
+                 click.trigger="toggleTreeRow(row, $event)">
+             <i if.bind="isTreeRowLoading(row, treeVersion)" class="glyphicon glyphicon-refresh"></i>
+             <i if.bind="!isTreeRowLoading(row, treeVersion) && hasTreeChildren(row, treeVersion)"
+                class="glyphicon \${isTreeRowExpanded(row, treeVersion) ? 'glyphicon-triangle-bottom' : 'glyphicon-triangle-right'}"></i>
+           </span>` : '';
+        let attributes = '';
+        if (column.editable) {
+          let isEditing = `isEditing(row, displayedColumns[${index}], editingRow, editingColumn)`;
+          attributes = ` dblclick.trigger="startEdit(row, displayedColumns[${index}])"`;
+          content = `<template if.bind="${isEditing}"><div class="bs-grid-editor" keydown.trigger="onEditorKeyDown($event)">${this.getEditorTemplate(column, index)}</div></template>` +
+            `<template if.bind="!${isEditing}">${cellTemplate}</template>`;
+        }
+        return `<${el} class.bind="(displayedColumns[${index}].cellClass || '') + (displayedColumns[${index}].pinned ? ' bs-grid-pinned' : '') + ($index === focusedIndex && focusedColumnIndex === ${index} ? ' bs-grid-focused-cell' : '')"
+                   style.bind="(displayedColumns[${index}].width ? 'width: ' + displayedColumns[${index}].width + 'px;' : '') + pinnedStyles[${index}]"${attributes}>${treeToggle}${content}</${el}>`;
+      }, row, wrapper, leadingCells);
 
       attachView(view, this.body.viewSlot).then(() => {
         if (!this.body.viewAttached.isResolved()) {
@@ -685,39 +3152,122 @@ export class BsGrid extends BsResizeContainer {
   private compileHeaderTemplate(columns: BsColumn[]) {
     if (this.header.viewSlot) {
       let view = this.columnsToView(columns, (column: BsColumn, index: number) => {
-        return `<th class="\${columns[${index}].headerClass} \${columns[${index}].sortable && rowsSortable ? 'sortable' : ''} \${columns[${index}].sortedOrder && rowsSortable ? 'sorted ' + columns[${index}].sortedOrder : ''}"
-                    style.bind="(columns[${index}].width ? 'width: ' + columns[${index}].width + 'px;' : '') + (columns[${index}].sortable && rowsSortable ? 'cursor: pointer' : '')"
-                    click.trigger="onColumnHeaderClick(columns[${index}])">
+        return `<th class="\${displayedColumns[${index}].headerClass} \${displayedColumns[${index}].sortable && rowsSortable ? 'sortable' : ''} \${displayedColumns[${index}].sortedOrder && rowsSortable ? 'sorted ' + displayedColumns[${index}].sortedOrder : ''} \${displayedColumns[${index}].pinned ? 'bs-grid-pinned' : ''}"
+                    style.bind="(displayedColumns[${index}].width ? 'width: ' + displayedColumns[${index}].width + 'px;' : '') + (displayedColumns[${index}].sortable && rowsSortable ? 'cursor: pointer;' : '') + pinnedStyles[${index}]"
+                    click.trigger="onColumnHeaderClick(displayedColumns[${index}], $event)"
+                    draggable.bind="reorderableColumns"
+                    dragstart.trigger="onColumnDragStart(displayedColumns[${index}], $event)"
+                    dragover.trigger="onColumnDragOver(displayedColumns[${index}], $event)"
+                    drop.trigger="onColumnDrop(displayedColumns[${index}])"
+                    dragend.trigger="onColumnDragEnd()">
+                    <span if.bind="resizableColumns && displayedColumns[${index}].resizable"
+                          class="bs-grid-column-resizer"
+                          mousedown.trigger="startColumnResize(displayedColumns[${index}], $event)"
+                          dblclick.trigger="autoFitColumn(displayedColumns[${index}])"
+                          click.trigger="$event.stopPropagation()"></span>
                     ${column.header || ''}
-                    <span if.bind="columns[${index}].sortable && rowsSortable && currentSortColumn === columns[${index}] && currentSortOrder === 'asc'" aria-hidden="true">&#9650;</span>
-                    <span if.bind="columns[${index}].sortable && rowsSortable && currentSortColumn === columns[${index}] && currentSortOrder === 'desc'" aria-hidden="true">&#9660;</span>
+                    <span if.bind="displayedColumns[${index}].sortable && rowsSortable && getSortOrder(displayedColumns[${index}], currentSortColumns) === 'asc'" aria-hidden="true">&#9650;</span>
+                    <span if.bind="displayedColumns[${index}].sortable && rowsSortable && getSortOrder(displayedColumns[${index}], currentSortColumns) === 'desc'" aria-hidden="true">&#9660;</span>
+                    <sup if.bind="displayedColumns[${index}].sortable && rowsSortable" class="bs-grid-sort-priority">\${getSortPriority(displayedColumns[${index}], currentSortColumns)}</sup>
                 </th>`;
-      });
+      }, undefined, undefined, this.getLeadingCells('th', true));
 
       attachView(view, this.header.viewSlot);
     }
   }
 
+  private compileFilterRowTemplate(columns: BsColumn[]) {
+    if (this.filterRow.viewSlot) {
+      let view = this.columnsToView(columns, (column: BsColumn, index: number) => {
+        return `<td class="bs-grid-column-filter \${displayedColumns[${index}].pinned ? 'bs-grid-pinned' : ''}"
+                    style.bind="(displayedColumns[${index}].width ? 'width: ' + displayedColumns[${index}].width + 'px;' : '') + pinnedStyles[${index}]">
+                    ${column.filterable ? this.getColumnFilterTemplate(column, index) : ''}
+                </td>`;
+      }, undefined, undefined, this.getLeadingCells('td'));
+
+      attachView(view, this.filterRow.viewSlot);
+    }
+  }
+
+  private getColumnFilterTemplate(column: BsColumn, index: number) {
+    let state = `columnFilterStates[${this.columnFilterStates.findIndex(s => s.column === column)}]`;
+    if (column.filterType === 'number' || column.filterType === 'date') {
+      let type = column.filterType === 'number' ? 'number' : 'date';
+      return `<input type="${type}" class="form-control input-sm" placeholder.bind="translations.from"
+                     value.bind="${state}.from" input.trigger="onColumnFilterChanged()">
+              <input type="${type}" class="form-control input-sm" placeholder.bind="translations.to"
+                     value.bind="${state}.to" input.trigger="onColumnFilterChanged()">`;
+    } else if (column.filterType === 'boolean') {
+      return `<select class="form-control input-sm" value.bind="${state}.value" change.trigger="onColumnFilterChanged()">
+                <option value=""></option>
+                <option value="true">\${translations.yes}</option>
+                <option value="false">\${translations.no}</option>
+              </select>`;
+    } else if (column.filterType === 'list') {
+      return `<select class="form-control input-sm" value.bind="${state}.value" change.trigger="onColumnFilterChanged()">
+                <option model.bind="''"></option>
+                <option repeat.for="option of displayedColumns[${index}].filterOptions" model.bind="option">\${option}</option>
+              </select>`;
+    } else {
+      return `<select class="form-control input-sm" value.bind="${state}.operator" change.trigger="onColumnFilterChanged()">
+                <option value="contains">\${translations.contains}</option>
+                <option value="equals">\${translations.equals}</option>
+              </select>
+              <input type="text" class="form-control input-sm"
+                     value.bind="${state}.value" input.trigger="onColumnFilterChanged()">`;
+    }
+  }
+
   private compileFooterTemplate(columns: BsColumn[]) {
     if (this.footer.viewSlot) {
       let view = this.columnsToView(columns, (column: BsColumn, index: number) => {
-        return `<td class="\${columns[${index}].footerClass} \${columns[${index}].sortable && rowsSortable ? 'sortable' : ''} \${columns[${index}].sortedOrder && rowsSortable ? 'sorted ' + columns[${index}].sortedOrder : ''}">
-                    ${column.footer || ''}
+        return `<td class="\${displayedColumns[${index}].footerClass} \${displayedColumns[${index}].sortable && rowsSortable ? 'sortable' : ''} \${displayedColumns[${index}].sortedOrder && rowsSortable ? 'sorted ' + displayedColumns[${index}].sortedOrder : ''} \${displayedColumns[${index}].pinned ? 'bs-grid-pinned' : ''}"
+                    style.bind="(displayedColumns[${index}].width ? 'width: ' + displayedColumns[${index}].width + 'px;' : '') + pinnedStyles[${index}]">
+                    ${column.footer && column.footer.trim().length > 0 ? column.footer :
+                      (column.aggregate ? `\${getAggregate(displayedColumns[${index}], aggregates)}` : '')}
                 </td>`;
-      });
+      }, undefined, undefined, this.getLeadingCells('td'));
 
       attachView(view, this.footer.viewSlot);
     }
   }
 
-  private columnsToView(columns: BsColumn[], templateMapper: (column: BsColumn, index: number) => string, row?: HTMLElement): View {
+  private getLeadingCells(element: 'th' | 'td', header = false) {
+    let cells = '';
+    let pinned = this.getLeadingCellClass();
+    if (this.hasCheckboxColumn) {
+      cells += header ?
+        `<${element} class="bs-grid-row-checkbox ${pinned}" style="${this.getLeadingCellStyle(0)}" click.trigger="toggleSelectAllOnPage()">
+           <input type="checkbox" tabindex="-1"
+                  checked.one-way="getPageSelectionState(value, values, selectionDescriptor, displayedItems) === 'all'"
+                  indeterminate.one-way="getPageSelectionState(value, values, selectionDescriptor, displayedItems) === 'some'">
+         </${element}>` :
+        `<${element} class="bs-grid-row-checkbox ${pinned}" style="${this.getLeadingCellStyle(0)}"></${element}>`;
+    }
+    if (this.hasRowExpander)
+      cells += `<${element} class="bs-grid-row-expander ${pinned}" style="${this.getLeadingCellStyle(this.hasCheckboxColumn ? 1 : 0)}"></${element}>`;
+    if (this.hasRowHandle)
+      cells += `<${element} class="bs-grid-row-handle ${pinned}" style="${this.getLeadingCellStyle(this.leadingCellCount - 1)}"></${element}>`;
+    return cells;
+  }
+
+  private getLeadingCellClass() {
+    return this.hasLeftPinnedColumns ? 'bs-grid-pinned' : '';
+  }
+
+  private getLeadingCellStyle(index: number) {
+    return this.hasLeftPinnedColumns ? `left: ${index * 30}px;` : '';
+  }
+
+  private columnsToView(columns: BsColumn[], templateMapper: (column: BsColumn, index: number) => string, row?: HTMLElement,
+    wrapper?: (row: HTMLElement) => Node, leadingCells = ''): View {
     if (!row) {
       row = document.createElement('tr');
     }
-    row.innerHTML = columns.map((column, index) => templateMapper(column, index)).join('\n');
+    row.innerHTML = leadingCells + columns.map((column, index) => templateMapper(column, index)).join('\n');
 
     let template = document.createDocumentFragment();
-    template.appendChild(row);
+    template.appendChild(wrapper ? wrapper(row) : row);
 
     let view = this.viewCompiler.compile(template, this.viewResources).create(this.container);
     view.bind(this);
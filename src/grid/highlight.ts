@@ -0,0 +1,69 @@
+import { valueConverter } from 'aurelia-framework';
+import { BsGridQuery, parseQuery } from './query';
+
+/**
+ * Marks the substrings of the value matching the (positive) terms of the filter with <mark class="bs-grid-highlight">.
+ * The value is HTML escaped; bind the result with innerhtml. Terms restricted to a field are only highlighted when the
+ * field is given and matches.
+ */
+export function highlightText(value: any, filter: BsGridQuery | string | undefined, field?: string): string {
+  let text = value === undefined || value === null ? '' : String(value);
+  let query = typeof filter === 'string' ? parseQuery(filter) : filter;
+  if (!text || !query)
+    return escapeHtml(text);
+
+  let lowerText = text.toLowerCase();
+  let ranges: { start: number, end: number }[] = [];
+  for (let group of query.groups) {
+    for (let term of group) {
+      let value = term.value.toLowerCase();
+      if (term.negated || !value || (term.operator !== 'contains' && term.operator !== 'equals'))
+        continue;
+      if (term.column && (!field || term.column.field.indexOf(field) === -1))
+        continue;
+
+      if (term.operator === 'equals') {
+        if (lowerText === value)
+          ranges.push({ start: 0, end: text.length });
+        continue;
+      }
+      for (let index = lowerText.indexOf(value); index !== -1; index = lowerText.indexOf(value, index + value.length))
+        ranges.push({ start: index, end: index + value.length });
+    }
+  }
+
+  // Merge overlapping matches of different terms
+  ranges.sort((a, b) => a.start - b.start);
+  let html = '';
+  let position = 0;
+  for (let range of ranges) {
+    if (range.end <= position)
+      continue;
+    let start = Math.max(range.start, position);
+    html += escapeHtml(text.substring(position, start)) +
+      '<mark class="bs-grid-highlight">' + escapeHtml(text.substring(start, range.end)) + '</mark>';
+    position = range.end;
+  }
+  return html + escapeHtml(text.substring(position));
+}
+
+function escapeHtml(text: string) {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/**
+ * Highlights the matches of the grid filter in a value of a custom cell template, e.g.
+ * <span innerhtml.bind="row.name | highlight:query:'name'"></span>
+ * where query is the parsed filter of the grid (or any filter string).
+ */
+@valueConverter('highlight')
+export class HighlightValueConverter {
+  toView(value: any, filter: BsGridQuery | string | undefined, field?: string) {
+    return highlightText(value, filter, field);
+  }
+}
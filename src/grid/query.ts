@@ -0,0 +1,106 @@
+import { BsColumn } from './column';
+
+export type BsGridQueryOperator = 'contains' | 'equals' | '>' | '>=' | '<' | '<=';
+
+export interface BsGridQueryTerm {
+  /** The field or header the term is restricted to (e.g. 'amount' in 'amount:>100'); undefined for terms searching all columns. */
+  field?: string;
+
+  /** The column matching the field (by one of its fields or its header). */
+  column?: BsColumn;
+
+  /** 'contains' by default, 'equals' for 'field:=value' and the comparison operators for 'field:>value' etc. */
+  operator: BsGridQueryOperator;
+
+  /** The search value (without quotes). */
+  value: string;
+
+  /** Indicates that the term is negated with '-term': matching rows are excluded. */
+  negated: boolean;
+}
+
+export interface BsGridQuery {
+  /** The alternatives separated by OR: a row matches when all terms of any group match. */
+  groups: BsGridQueryTerm[][];
+}
+
+/**
+ * Parses the search syntax of the grid filter: terms separated by spaces must all match, "quoted phrases" are
+ * searched as a whole, field:value restricts a term to the column with that field or header, -term excludes the
+ * matching rows, field:>value (>, >=, <, <=, =) compares the values and OR (or |) separates alternative groups.
+ * Fields which don't match any of the given columns are searched as text.
+ */
+export function parseQuery(text: string, columns: BsColumn[] = []): BsGridQuery {
+  let groups: BsGridQueryTerm[][] = [[]];
+  let index = 0;
+
+  while (index < text.length) {
+    if (/\s/.test(text[index])) {
+      index++;
+      continue;
+    }
+
+    let start = index;
+    let negated = text[index] === '-' && index + 1 < text.length && !/\s/.test(text[index + 1]);
+    if (negated)
+      index++;
+
+    let term: BsGridQueryTerm = { operator: 'contains', value: '', negated: negated };
+    let part = readPart(text, index, true);
+    if (!part.quoted && part.text && text[part.end] === ':') {
+      let column = findColumn(columns, part.text);
+      index = part.end + 1;
+      let operator = /^(>=|<=|>|<|=)/.exec(text.substr(index));
+      if (operator)
+        index += operator[0].length;
+      let value = readPart(text, index, false);
+      index = value.end;
+
+      if (column) {
+        term.field = part.text;
+        term.column = column;
+        term.operator = operator ? (operator[0] === '=' ? 'equals' : <BsGridQueryOperator>operator[0]) : 'contains';
+        term.value = value.text;
+      } else {
+        // Not a known field (e.g. a time or an URL): search the whole token
+        term.value = text.substring(negated ? start + 1 : start, index);
+      }
+    } else {
+      part = readPart(text, index, false);
+      index = part.end;
+      term.value = part.text;
+
+      if (!negated && !part.quoted && (part.text === 'OR' || part.text === '|')) {
+        if (groups[groups.length - 1].length > 0)
+          groups.push([]);
+        continue;
+      }
+    }
+
+    if (term.value)
+      groups[groups.length - 1].push(term);
+  }
+
+  return { groups: groups.filter(group => group.length > 0) };
+}
+
+function readPart(text: string, index: number, stopAtColon: boolean) {
+  if (text[index] === '"') {
+    let end = text.indexOf('"', index + 1);
+    if (end === -1)
+      end = text.length;
+    return { text: text.substring(index + 1, end), quoted: true, end: Math.min(end + 1, text.length) };
+  }
+
+  let end = index;
+  while (end < text.length && !/\s/.test(text[end]) && !(stopAtColon && text[end] === ':'))
+    end++;
+  return { text: text.substring(index, end), quoted: false, end: end };
+}
+
+function findColumn(columns: BsColumn[], name: string) {
+  let lowerName = name.toLowerCase();
+  return columns.filter(column => column.field && column.field.length > 0).find(column =>
+    column.field.some(field => field.toLowerCase() === lowerName) ||
+    (!!column.header && column.header.replace(/<[^>]*>/g, '').trim().toLowerCase() === lowerName));
+}
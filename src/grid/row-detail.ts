@@ -0,0 +1,38 @@
+import { customElement, inject, bindable, noView, processContent } from 'aurelia-framework';
+
+/**
+ * Defines the template of the detail row which is shown beneath an expanded
+ * row of the grid. Within the template the expanded row is bound to `row`,
+ * the result of the grid's loadDetail callback to `detail` and the binding
+ * context in which the grid is placed to `parent`.
+ */
+@inject(Element)
+@noView
+@processContent(false)
+@customElement('bs-row-detail')
+export class BsRowDetail {
+  /**
+ * Set to false to hide the expander cell; the rows can still be expanded
+ * with the grid's expandRow() and toggleRowDetail() methods.
+ */
+  @bindable
+  public showExpander = true;
+
+  public template: string;
+
+  constructor(public element: Element) {
+    this.template = this.element.innerHTML;
+    this.element.innerHTML = '';
+  }
+
+  bind() {
+    /* TODO: Workaround until aurelia/binding issue #347 is resolved. */
+    if (typeof this.showExpander === 'string') {
+      this.showExpander = (<any>this.showExpander).toLowerCase() === 'true';
+    }
+  }
+
+  propertyChanged() {
+    this.element.dispatchEvent(new CustomEvent('update'));
+  }
+}
@@ -0,0 +1,80 @@
+export interface BsGridColumnState {
+  /** The column key (the fields or, when no field is set, the header text). */
+  key: string;
+  width: number;
+  visible: boolean;
+}
+
+export interface BsGridState {
+  currentIndex: number;
+  sort: { key: string, order: 'asc' | 'desc' }[];
+  filter: string;
+
+  /** The columns in the order defined by the user. */
+  columns: BsGridColumnState[];
+
+  value: any;
+  values: any[];
+}
+
+export interface BsGridStateStorage {
+  load(key: string): BsGridState | null;
+  save(key: string, state: BsGridState): void;
+}
+
+/** Stores the grid state in the local storage of the browser. */
+export class BsGridLocalStorage implements BsGridStateStorage {
+  constructor(private prefix = 'bs-grid:') {
+  }
+
+  load(key: string) {
+    try {
+      let json = window.localStorage.getItem(this.prefix + key);
+      return json ? <BsGridState>JSON.parse(json) : null;
+    } catch (e) {
+      return null;
+    }
+  }
+
+  save(key: string, state: BsGridState) {
+    try {
+      window.localStorage.setItem(this.prefix + key, JSON.stringify(state));
+    } catch (e) {
+      // The storage is full or blocked: the state is not saved
+    }
+  }
+}
+
+/** Stores the grid state as JSON in a query string parameter of the current URL (the state key is the parameter name). */
+export class BsGridQueryStringStorage implements BsGridStateStorage {
+  load(key: string) {
+    let value = this.getParameters(window.location.search)[key];
+    try {
+      return value ? <BsGridState>JSON.parse(value) : null;
+    } catch (e) {
+      return null;
+    }
+  }
+
+  save(key: string, state: BsGridState) {
+    let parameters = this.getParameters(window.location.search);
+    parameters[key] = JSON.stringify(state);
+
+    let search = '?' + Object.keys(parameters)
+      .map(name => encodeURIComponent(name) + '=' + encodeURIComponent(parameters[name]))
+      .join('&');
+
+    window.history.replaceState(window.history.state, document.title,
+      window.location.pathname + search + window.location.hash);
+  }
+
+  private getParameters(search: string) {
+    let parameters: { [name: string]: string } = {};
+    search.replace(/^\?/, '').split('&').filter(part => !!part).forEach(part => {
+      let index = part.indexOf('=');
+      let name = decodeURIComponent(index === -1 ? part : part.substr(0, index));
+      parameters[name] = index === -1 ? '' : decodeURIComponent(part.substr(index + 1).replace(/\+/g, ' '));
+    });
+    return parameters;
+  }
+}
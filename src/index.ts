@@ -4,7 +4,9 @@ export function configure(config: FrameworkConfiguration): void {
   config.globalResources([
     PLATFORM.moduleName('./dialog'),
     PLATFORM.moduleName('./grid/column'),
+    PLATFORM.moduleName('./grid/row-detail'),
     PLATFORM.moduleName('./grid/grid'),
+    PLATFORM.moduleName('./grid/highlight'),
     PLATFORM.moduleName('./select-grid/select-grid'),
     PLATFORM.moduleName('./datepicker'),
     PLATFORM.moduleName('./dialog'),
@@ -38,7 +40,13 @@ export * from './dialog-service';
 export * from './dialog';
 
 export * from './grid/column';
+export * from './grid/row-detail';
 export * from './grid/grid';
+export * from './grid/state';
+export * from './grid/data-source';
+export * from './grid/format';
+export * from './grid/query';
+export * from './grid/highlight';
 
 export * from './select-grid/select-grid';
 
@@ -13,7 +13,7 @@ export function createComponentId() {
 }
 
 export class BsValidateBindingBehavior {
-  bind(binding: any) {
+  bind(binding: any, source?: any, controller?: ValidationController) {
     let component = binding.target as BsValidationComponent;
     let parent = binding.source.bindingContext;
 
@@ -25,6 +25,12 @@ export class BsValidateBindingBehavior {
 
     component.propertyName = binding.sourceExpression.expression.name;
 
+    // An explicitly passed controller is used (e.g. value.bind="row.name & bsValidate:controller")
+    if (controller instanceof ValidationController) {
+      component.controller = controller;
+      return;
+    }
+
     // TODO: Recursively search parents
     for (let propertyName in parent) {
       if (parent.hasOwnProperty(propertyName) && parent[propertyName] instanceof ValidationController) {